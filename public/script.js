@@ -1,14 +1,224 @@
+// Formats the server can turn into a transcript
+const TRANSCRIPT_EXTENSIONS = [".txt", ".vtt", ".srt", ".docx", ".pdf", ".json"];
+
 class TranscriptProcessor {
   constructor() {
     this.apiBaseUrl = this.detectApiBaseUrl();
     this.currentBatchId = null;
     this.files = [];
-    this.progressInterval = null;
+    this.eventSource = null;
+    this.batchModels = [];
+    this.batchJudge = null;
+    this.providers = [];
+    this.loadedPrompt = null; // Saved prompt version currently in the form
 
     this.initializeDarkMode();
     this.initializeEventListeners();
     this.addLog("System initialized - ready for transcript processing", "info");
     this.checkServerConnection();
+    this.loadProviders();
+    this.loadPrompts();
+  }
+
+  providerColor(provider) {
+    const colors = {
+      openai: "#059669",
+      claude: "#7c3aed",
+      gemini: "#dc2626",
+      local: "#0891b2",
+    };
+    return colors[provider] || "#2563eb";
+  }
+
+  async loadProviders() {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/api/providers`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load providers");
+      }
+      this.providers = result.data.providers;
+    } catch (error) {
+      this.addLog(`⚠️ Could not load providers: ${error.message}`, "warning");
+      this.providers = [
+        { name: "openai", displayName: "OpenAI", defaultModel: "gpt-4o-mini" },
+        { name: "claude", displayName: "Claude", defaultModel: "" },
+        { name: "gemini", displayName: "Gemini", defaultModel: "" },
+      ];
+    }
+
+    // Start with one row per provider
+    this.providers.forEach((provider) =>
+      this.addModelRow(provider.name, provider.defaultModel)
+    );
+
+    const judgeProvider = document.getElementById("judgeProvider");
+    if (judgeProvider) {
+      this.providers.forEach((p) => {
+        const option = document.createElement("option");
+        option.value = p.name;
+        option.textContent = p.displayName;
+        judgeProvider.appendChild(option);
+      });
+    }
+  }
+
+  addModelRow(providerName, model = "") {
+    const modelList = document.getElementById("modelList");
+    if (!modelList) return;
+
+    const provider =
+      this.providers.find((p) => p.name === providerName) || this.providers[0];
+
+    const row = document.createElement("div");
+    row.className = "model-row";
+
+    const select = document.createElement("select");
+    select.className = "form-select model-provider";
+    this.providers.forEach((p) => {
+      const option = document.createElement("option");
+      option.value = p.name;
+      option.textContent = p.displayName;
+      select.appendChild(option);
+    });
+    select.value = provider ? provider.name : "";
+
+    const input = document.createElement("input");
+    input.type = "text";
+    input.className = "form-input model-name";
+    input.placeholder = provider ? provider.defaultModel : "";
+    input.value = model;
+
+    select.addEventListener("change", () => {
+      const selected = this.providers.find((p) => p.name === select.value);
+      input.placeholder = selected ? selected.defaultModel : "";
+    });
+
+    const remove = document.createElement("button");
+    remove.type = "button";
+    remove.className = "model-remove";
+    remove.title = "Remove model";
+    remove.textContent = "✕";
+    remove.addEventListener("click", () => row.remove());
+
+    row.append(select, input, remove);
+    modelList.appendChild(row);
+  }
+
+  getSelectedModels() {
+    return Array.from(document.querySelectorAll("#modelList .model-row")).map(
+      (row) => ({
+        provider: row.querySelector(".model-provider").value,
+        model: row.querySelector(".model-name").value.trim(),
+      })
+    );
+  }
+
+  async loadPrompts(selectedId = "") {
+    const select = document.getElementById("savedPrompt");
+    if (!select) return;
+
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/api/prompts`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load saved prompts");
+      }
+
+      select.length = 1;
+      result.data.prompts.forEach((prompt) => {
+        const option = document.createElement("option");
+        option.value = prompt.id;
+        option.textContent = `${prompt.name} (v${prompt.latestVersion})`;
+        select.appendChild(option);
+      });
+      select.value = selectedId;
+    } catch (error) {
+      this.addLog(`⚠️ Could not load saved prompts: ${error.message}`, "warning");
+    }
+  }
+
+  getPromptFields() {
+    return {
+      jobDescription: document.getElementById("jobDescription").value.trim(),
+      prompt: document.getElementById("analysisPrompt").value.trim(),
+      systemTemplate: document.getElementById("systemTemplate").value.trim(),
+      userTemplate: document.getElementById("userTemplate").value.trim(),
+    };
+  }
+
+  // Fill the form with the latest version of a saved prompt
+  async selectPrompt(promptId) {
+    this.loadedPrompt = null;
+    if (!promptId) return;
+
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/api/prompts/${promptId}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load prompt");
+      }
+
+      const latest = result.data.versions[result.data.versions.length - 1];
+      document.getElementById("jobDescription").value = latest.jobDescription;
+      document.getElementById("analysisPrompt").value = latest.prompt;
+      document.getElementById("systemTemplate").value = latest.systemTemplate || "";
+      document.getElementById("userTemplate").value = latest.userTemplate || "";
+
+      this.loadedPrompt = {
+        id: promptId,
+        version: latest.version,
+        fields: this.getPromptFields(),
+      };
+      this.addLog(`📚 Loaded prompt "${result.data.name}" v${latest.version}`, "info");
+    } catch (error) {
+      this.addLog(`❌ Error: ${error.message}`, "error");
+    }
+  }
+
+  // True when the form still holds the loaded saved version unchanged
+  isLoadedPromptUnchanged() {
+    if (!this.loadedPrompt) return false;
+    const fields = this.getPromptFields();
+    return Object.keys(fields).every(
+      (key) => fields[key] === this.loadedPrompt.fields[key]
+    );
+  }
+
+  // Save the form as a new prompt, or as a new version of the selected one
+  async savePrompt() {
+    const fields = this.getPromptFields();
+    const promptId = document.getElementById("savedPrompt").value;
+
+    let url = `${this.apiBaseUrl}/api/prompts`;
+    let body = fields;
+    if (promptId) {
+      url = `${url}/${promptId}/versions`;
+    } else {
+      const name = window.prompt("Name for this prompt:");
+      if (!name || !name.trim()) return;
+      body = { ...fields, name: name.trim() };
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save prompt");
+      }
+
+      const savedId = promptId || result.data.id;
+      const version = promptId ? result.data.version : 1;
+      this.loadedPrompt = { id: savedId, version, fields };
+      this.addLog(`💾 Saved prompt v${version}`, "success");
+      await this.loadPrompts(savedId);
+    } catch (error) {
+      this.addLog(`❌ Error: ${error.message}`, "error");
+    }
   }
 
   initializeDarkMode() {
@@ -45,7 +255,7 @@ class TranscriptProcessor {
       const response = await fetch(`${this.apiBaseUrl}/health`);
       if (response.ok) {
         this.addLog("✅ Connected to server successfully", "success");
-        this.addLog("🤖 AI Models: OpenAI + Claude + Gemini", "info");
+        this.addLog("🤖 AI Models: configurable per batch", "info");
       } else {
         throw new Error(`Server responded with status ${response.status}`);
       }
@@ -77,12 +287,31 @@ class TranscriptProcessor {
       fileInput.addEventListener("change", this.handleFileSelect.bind(this));
     }
 
+    // Saved prompts
+    const savedPrompt = document.getElementById("savedPrompt");
+    if (savedPrompt) {
+      savedPrompt.addEventListener("change", () =>
+        this.selectPrompt(savedPrompt.value)
+      );
+    }
+
+    const savePromptBtn = document.getElementById("savePrompt");
+    if (savePromptBtn) {
+      savePromptBtn.addEventListener("click", this.savePrompt.bind(this));
+    }
+
     // Start processing button
     const startBtn = document.getElementById("startProcessing");
     if (startBtn) {
       startBtn.addEventListener("click", this.startProcessing.bind(this));
     }
 
+    // Add model button
+    const addModelBtn = document.getElementById("addModel");
+    if (addModelBtn) {
+      addModelBtn.addEventListener("click", () => this.addModelRow());
+    }
+
     // Download button
     const downloadBtn = document.getElementById("downloadResults");
     if (downloadBtn) {
@@ -117,8 +346,8 @@ class TranscriptProcessor {
       uploadArea.classList.remove("drag-over");
     }
 
-    const files = Array.from(e.dataTransfer.files).filter(
-      (file) => file.name.toLowerCase().endsWith(".txt")
+    const files = Array.from(e.dataTransfer.files).filter((file) =>
+      this.isTranscriptFile(file)
     );
 
     if (files.length > 0) {
@@ -126,13 +355,16 @@ class TranscriptProcessor {
       this.displayFileList();
       this.addLog(`📄 ${files.length} transcript file(s) selected`, "success");
     } else {
-      this.addLog("⚠️ Please select only .txt files", "warning");
+      this.addLog(
+        `⚠️ Please select transcript files (${TRANSCRIPT_EXTENSIONS.join(", ")})`,
+        "warning"
+      );
     }
   }
 
   handleFileSelect(e) {
-    const files = Array.from(e.target.files).filter(
-      (file) => file.name.toLowerCase().endsWith(".txt")
+    const files = Array.from(e.target.files).filter((file) =>
+      this.isTranscriptFile(file)
     );
 
     if (files.length > 0) {
@@ -140,10 +372,18 @@ class TranscriptProcessor {
       this.displayFileList();
       this.addLog(`📄 ${files.length} transcript file(s) selected`, "success");
       } else {
-      this.addLog("⚠️ Please select only .txt files", "warning");
+      this.addLog(
+        `⚠️ Please select transcript files (${TRANSCRIPT_EXTENSIONS.join(", ")})`,
+        "warning"
+      );
     }
   }
 
+  isTranscriptFile(file) {
+    const name = file.name.toLowerCase();
+    return TRANSCRIPT_EXTENSIONS.some((extension) => name.endsWith(extension));
+  }
+
   displayFileList() {
     const fileListDiv = document.getElementById("fileList");
     if (!fileListDiv) return;
@@ -185,9 +425,8 @@ class TranscriptProcessor {
 
     const jobDescription = document.getElementById("jobDescription").value;
     const analysisPrompt = document.getElementById("analysisPrompt").value;
-    const openaiModel = document.getElementById("openaiModel").value;
-    const claudeModel = document.getElementById("claudeModel").value;
-    const geminiModel = document.getElementById("geminiModel").value;
+    const models = this.getSelectedModels();
+    const outputSchema = document.getElementById("outputSchema").value.trim();
 
     // Validation
     if (!jobDescription || jobDescription.trim().length < 20) {
@@ -200,7 +439,21 @@ class TranscriptProcessor {
       return;
     }
 
-    if (!openaiModel || !claudeModel || !geminiModel) {
+    if (outputSchema) {
+      try {
+        JSON.parse(outputSchema);
+      } catch (error) {
+        this.addLog("⚠️ Output schema must be valid JSON", "warning");
+        return;
+      }
+    }
+
+    if (models.length === 0) {
+      this.addLog("⚠️ Please add at least one AI model", "warning");
+      return;
+    }
+
+    if (models.some((m) => !m.model)) {
       this.addLog("⚠️ Please specify all AI model names", "warning");
       return;
     }
@@ -212,11 +465,60 @@ class TranscriptProcessor {
       this.files.forEach((file) => {
         formData.append("transcripts", file);
       });
-      formData.append("jobDescription", jobDescription);
-      formData.append("prompt", analysisPrompt);
-      formData.append("openaiModel", openaiModel);
-      formData.append("claudeModel", claudeModel);
-      formData.append("geminiModel", geminiModel);
+      // An unedited saved prompt is referenced by version so results stay
+      // traceable; anything else is sent as text
+      if (this.isLoadedPromptUnchanged()) {
+        formData.append("promptId", this.loadedPrompt.id);
+        formData.append("promptVersion", this.loadedPrompt.version);
+      } else {
+        formData.append("jobDescription", jobDescription);
+        formData.append("prompt", analysisPrompt);
+        formData.append(
+          "systemTemplate",
+          document.getElementById("systemTemplate").value
+        );
+        formData.append(
+          "userTemplate",
+          document.getElementById("userTemplate").value
+        );
+      }
+      formData.append("models", JSON.stringify(models));
+      formData.append("mock", document.getElementById("mockMode").checked);
+      if (document.getElementById("bypassCache").checked) {
+        formData.append("cache", "false");
+      }
+      // Unchecked leaves the server default (REDACTION_ENABLED) in place
+      if (document.getElementById("redactPii").checked) {
+        formData.append("redact", "true");
+      }
+      const maxCost = parseFloat(
+        document.getElementById("budgetMaxCost").value
+      );
+      if (maxCost > 0) {
+        formData.append(
+          "budget",
+          JSON.stringify({
+            maxCost,
+            onExceeded: document.getElementById("budgetOnExceeded").value,
+          })
+        );
+      }
+      formData.append(
+        "candidateSpeaker",
+        document.getElementById("candidateSpeaker").value.trim()
+      );
+      if (outputSchema) {
+        formData.append("outputSchema", outputSchema);
+      }
+      if (document.getElementById("judgeEnabled").checked) {
+        formData.append(
+          "judge",
+          JSON.stringify({
+            provider: document.getElementById("judgeProvider").value,
+            model: document.getElementById("judgeModel").value.trim(),
+          })
+        );
+      }
 
       const response = await fetch(`${this.apiBaseUrl}/api/process`, {
         method: "POST",
@@ -225,6 +527,12 @@ class TranscriptProcessor {
 
       const result = await response.json();
 
+      // Files that could not be read are reported one by one
+      const fileErrors = (result.data || result).fileErrors || [];
+      fileErrors.forEach(({ filename, error }) => {
+        this.addLog(`⚠️ ${filename}: ${error}`, "warning");
+      });
+
       if (!response.ok) {
         throw new Error(result.error || "Processing failed");
       }
@@ -242,81 +550,223 @@ class TranscriptProcessor {
     }
   }
 
+  // Follow the batch over Server-Sent Events. EventSource reconnects on its
+  // own and resumes from the last event id it saw.
   startProgressMonitoring() {
-    if (this.progressInterval) {
-      clearInterval(this.progressInterval);
+    if (this.eventSource) {
+      this.eventSource.close();
+    }
+
+    const source = new EventSource(
+      `${this.apiBaseUrl}/api/batch/${this.currentBatchId}/events`
+    );
+    this.eventSource = source;
+
+    source.addEventListener("progress", (e) => {
+      const progress = JSON.parse(e.data);
+      this.batchModels = progress.models;
+      this.batchJudge = progress.judge;
+      this.updateProgress(progress.metrics);
+      if (
+        ["completed", "failed", "cancelled", "paused"].includes(progress.status)
+      ) {
+        this.finishProgressMonitoring(progress.status, progress.metrics);
+      }
+    });
+
+    source.addEventListener("file-started", (e) => {
+      const data = JSON.parse(e.data);
+      this.addLog(`📝 Processing ${data.filename}`, "info");
+      this.updateProgress(data.metrics);
+    });
+
+    source.addEventListener("provider-completed", (e) => {
+      const data = JSON.parse(e.data);
+      this.updateProgress(data.metrics);
+    });
+
+    source.addEventListener("provider-failed", (e) => {
+      const data = JSON.parse(e.data);
+      const httpStatus = data.httpStatus ? ` ${data.httpStatus}` : "";
+      this.addLog(
+        `⚠️ ${data.target} failed for ${data.filename} (${data.errorClass}${httpStatus}): ${data.error}`,
+        "warning"
+      );
+      this.updateProgress(data.metrics);
+    });
+
+    source.addEventListener("file-completed", (e) => {
+      const data = JSON.parse(e.data);
+      if (data.fileStatus === "failed") {
+        this.addLog(`❌ ${data.filename}: ${data.error}`, "error");
+      }
+      this.updateProgress(data.metrics);
+    });
+
+    source.addEventListener("batch-finished", (e) => {
+      const data = JSON.parse(e.data);
+      this.updateProgress(data.metrics);
+      this.finishProgressMonitoring(data.status, data.metrics);
+    });
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CONNECTING) {
+        console.warn("Progress stream interrupted, reconnecting...");
+      }
+    };
   }
 
-    this.progressInterval = setInterval(async () => {
-      await this.updateProgress();
-    }, 2000); // Update every 2 seconds
+  updateProgress(metrics) {
+    // Update overall progress
+    const overallPercent = metrics.total > 0
+      ? Math.round((metrics.completed / metrics.total) * 100)
+      : 0;
+    document.getElementById("overallProgress").textContent =
+      `${metrics.completed} / ${metrics.total}`;
+    document.getElementById("overallProgressFill").style.width =
+      `${overallPercent}%`;
+
+    const targets = this.batchJudge
+      ? [...this.batchModels, { id: "judge", ...this.batchJudge }]
+      : this.batchModels;
+    this.renderModelProgress(targets, {
+      ...metrics,
+      modelsComplete: { ...metrics.modelsComplete, judge: metrics.judged },
+    });
+  }
 
-    // Initial update
-    this.updateProgress();
+  finishProgressMonitoring(status, metrics) {
+    if (!this.eventSource) return;
+    this.eventSource.close();
+    this.eventSource = null;
+    this.loadFileErrors();
+
+    if (status === "completed") {
+      this.addLog("🎉 All processing completed!", "success");
+      document.getElementById("downloadSection").classList.remove("hidden");
+      this.loadLeaderboard();
+    } else if (status === "failed") {
+      this.addLog("❌ Processing failed", "error");
+    } else if (status === "paused") {
+      this.addLog(
+        `⏸️ Budget reached, processing paused (${metrics.pending} file(s) left)`,
+        "warning"
+      );
+    } else if (status === "cancelled") {
+      this.addLog(
+        `🛑 Processing cancelled (${metrics.skipped} file(s) skipped)`,
+        "warning"
+      );
+    }
+  }
+
+  renderModelProgress(models, metrics) {
+    const container = document.getElementById("modelProgress");
+    if (!container) return;
+
+    container.replaceChildren(
+      ...models.map((target) => {
+        const done = metrics.modelsComplete[target.id] || 0;
+        const percent =
+          metrics.total > 0 ? Math.round((done / metrics.total) * 100) : 0;
+        const color = this.providerColor(target.provider);
+        const row = document.createElement("div");
+        row.innerHTML = `
+          <div style="display: flex; justify-content: space-between; margin-bottom: 4px">
+            <span style="color: ${color}; font-weight: 500"></span>
+            <span>${done} / ${metrics.total}</span>
+          </div>
+          <div class="progress-bar">
+            <div class="progress-fill" style="width: ${percent}%; background: ${color}"></div>
+          </div>
+        `;
+        // Target ids and model names are user input
+        row.querySelector("span").textContent = `${target.id} (${target.model})`;
+        return row;
+      })
+    );
+  }
+
+  // Cells are set as text: filenames and model names come from uploads
+  tableRow(tag, cells) {
+    const row = document.createElement("tr");
+    for (const value of cells) {
+      const cell = document.createElement(tag);
+      cell.textContent = value;
+      row.appendChild(cell);
+    }
+    return row;
   }
 
-  async updateProgress() {
-      if (!this.currentBatchId) return;
+  async loadLeaderboard() {
+    if (!this.currentBatchId) return;
+    const url = `${this.apiBaseUrl}/api/batch/${this.currentBatchId}/leaderboard`;
 
     try {
-      const response = await fetch(
-        `${this.apiBaseUrl}/api/batch/${this.currentBatchId}/progress`
-      );
+      const response = await fetch(url);
       const result = await response.json();
-
       if (!response.ok) {
-        throw new Error(result.error || "Failed to get progress");
+        throw new Error(result.error || "Failed to load leaderboard");
       }
 
-      const { metrics } = result.data;
-
-      // Update overall progress
-      const overallPercent = metrics.total > 0 
-        ? Math.round((metrics.completed / metrics.total) * 100) 
-        : 0;
-      document.getElementById("overallProgress").textContent = 
-        `${metrics.completed} / ${metrics.total}`;
-      document.getElementById("overallProgressFill").style.width = 
-        `${overallPercent}%`;
-
-        // Update OpenAI progress
-      const openaiPercent = metrics.total > 0 
-        ? Math.round((metrics.openaiComplete / metrics.total) * 100) 
-        : 0;
-      document.getElementById("openaiProgress").textContent = 
-        `${metrics.openaiComplete} / ${metrics.total}`;
-      document.getElementById("openaiProgressFill").style.width = 
-        `${openaiPercent}%`;
-
-        // Update Claude progress
-      const claudePercent = metrics.total > 0 
-        ? Math.round((metrics.claudeComplete / metrics.total) * 100) 
-        : 0;
-      document.getElementById("claudeProgress").textContent = 
-        `${metrics.claudeComplete} / ${metrics.total}`;
-      document.getElementById("claudeProgressFill").style.width = 
-        `${claudePercent}%`;
-
-        // Update Gemini progress
-      const geminiPercent = metrics.total > 0 
-        ? Math.round((metrics.geminiComplete / metrics.total) * 100) 
-        : 0;
-      document.getElementById("geminiProgress").textContent = 
-        `${metrics.geminiComplete} / ${metrics.total}`;
-      document.getElementById("geminiProgressFill").style.width = 
-        `${geminiPercent}%`;
-
-      // Check if completed
-      if (result.data.status === "completed") {
-      clearInterval(this.progressInterval);
-        this.addLog("🎉 All processing completed!", "success");
-        document.getElementById("downloadSection").classList.remove("hidden");
-      } else if (result.data.status === "failed") {
-        clearInterval(this.progressInterval);
-        this.addLog("❌ Processing failed", "error");
+      const { columns, entries } = result.data;
+      const format = (score) => (score === null ? "–" : score);
+      document
+        .getElementById("leaderboardHead")
+        .replaceChildren(
+          this.tableRow("th", ["#", "Transcript", "Average", ...columns])
+        );
+      document.getElementById("leaderboardBody").replaceChildren(
+        ...entries.map((entry) => {
+          const tr = this.tableRow("td", [
+            entry.rank,
+            entry.filename,
+            "",
+            ...columns.map((id) => format(entry.scores[id])),
+          ]);
+          const average = document.createElement("strong");
+          average.textContent = format(entry.average);
+          tr.children[2].appendChild(average);
+          return tr;
+        })
+      );
+
+      document.getElementById("leaderboardCsv").href = `${url}?format=csv`;
+      document.getElementById("leaderboard").classList.remove("hidden");
+    } catch (error) {
+      this.addLog(`⚠️ Could not load leaderboard: ${error.message}`, "warning");
+    }
+  }
+
+  // Table of every provider error in the batch, hidden when there are none
+  async loadFileErrors() {
+    if (!this.currentBatchId) return;
+    const url = `${this.apiBaseUrl}/api/batch/${this.currentBatchId}/files`;
+
+    try {
+      const response = await fetch(url);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load file details");
       }
+
+      const rows = result.data.files.flatMap((file) =>
+        file.errors.map((error) => [
+          file.filename,
+          error.stage ? `${error.target} (${error.stage})` : error.target,
+          error.status ? `${error.errorClass} ${error.status}` : error.errorClass,
+          error.attempt,
+          error.message,
+        ])
+      );
+
+      const body = document.getElementById("fileErrorsBody");
+      body.replaceChildren(...rows.map((cells) => this.tableRow("td", cells)));
+      document
+        .getElementById("fileErrors")
+        .classList.toggle("hidden", rows.length === 0);
     } catch (error) {
-      console.error("Error updating progress:", error);
+      this.addLog(`⚠️ Could not load file errors: ${error.message}`, "warning");
     }
   }
 
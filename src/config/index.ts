@@ -4,7 +4,15 @@ dotenv.config();
 
 export interface ProcessingConfig {
   concurrent: {
-    processing: number;
+    processing: number; // Files processed at once
+    providers: {
+      // Calls in flight per provider, across all files and batches
+      openai: number;
+      claude: number;
+      gemini: number;
+      local: number;
+      mock: number;
+    };
   };
   timeouts: {
     processing: number;
@@ -17,79 +25,455 @@ export interface ProcessingConfig {
     maxSize: number;
     maxBatch: number;
   };
+  // Transcripts longer than a model's context window are split into chunks
+  chunking: {
+    maxTokens: number; // Upper bound per chunk (0 = fill the context window)
+    overlapTokens: number; // Tail of the previous chunk repeated for context
+  };
+  comparison: {
+    scoreTolerance: number; // Score spread (0-10 scale) tolerated before flagging
+  };
+  // Follow-up model used by the "model" score extraction method
+  scoring: {
+    provider: string;
+    model: string; // Empty uses the provider's default model
+  };
+  // Converts provider token usage into cost
+  pricing: {
+    prices: Record<string, ModelPrice>;
+    estimatedOutputTokens: number; // Response size assumed by cost estimates
+  };
+  // Default spend caps for batches that do not set their own (0 = unlimited)
+  budget: {
+    maxCost: number;
+    maxTokens: number;
+    onExceeded: string;
+  };
+  // Provider responses reused for identical calls
+  cache: {
+    enabled: boolean; // Batches can still opt out individually
+    ttlHours: number; // 0 = entries never expire
+  };
+  // Default PII redaction for batches that do not set their own
+  redaction: {
+    enabled: boolean;
+    types: string[];
+    terms: string[];
+  };
+  // Defaults for the optional judge stage that merges the model analyses
+  judge: {
+    provider: string;
+    model: string; // Empty uses the provider's default model
+    prompt: string;
+  };
+}
+
+// USD per million tokens. Keys are "provider/model", a model name (which also
+// matches longer, dated names such as "gpt-4o-2024-08-06") or "provider/*".
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Per-provider budgets enforced by the token-bucket rate limiter (0 = unlimited)
+export interface RateLimit {
+  rpm: number; // Requests per minute
+  tpm: number; // Estimated prompt tokens per minute
 }
 
+// "mock" swaps a provider for the offline fake (no API key or network needed)
+export type ProviderMode = "live" | "mock";
+
 export interface APIConfig {
   openai: {
+    mode: ProviderMode;
     apiKey: string;
     defaultModel: string;
     maxTokens: number;
+    contextWindow: number; // Tokens the model accepts; longer transcripts are chunked
+    rateLimit: RateLimit;
   };
   anthropic: {
+    mode: ProviderMode;
     apiKey: string;
     defaultModel: string;
     maxTokens: number;
+    contextWindow: number; // Tokens the model accepts; longer transcripts are chunked
+    rateLimit: RateLimit;
   };
   gemini: {
+    mode: ProviderMode;
+    apiKey: string;
+    defaultModel: string;
+    maxTokens: number;
+    contextWindow: number; // Tokens the model accepts; longer transcripts are chunked
+    rateLimit: RateLimit;
+  };
+  // Self-hosted server speaking the OpenAI chat-completions protocol
+  // (Ollama, vLLM, llama.cpp server); disabled when baseUrl is empty
+  local: {
+    baseUrl: string;
     apiKey: string;
+    authHeader: string; // "Authorization" sends "Bearer <apiKey>"
     defaultModel: string;
     maxTokens: number;
+    contextWindow: number; // Tokens the model accepts; longer transcripts are chunked
+    rateLimit: RateLimit;
+  };
+  // Deterministic fake provider for development and automated tests
+  mock: {
+    defaultModel: string;
+    latencyMs: number;
+    failureRate: number; // 0..1 share of calls that fail
+    failureStatus: number; // HTTP status reported by simulated failures
+    template: string; // {{model}} {{filename}} {{score}} {{length}} (of the user message)
+    contextWindow: number;
+    rateLimit: RateLimit;
   };
 }
 
+// Outbound notifications sent when a batch completes, fails or is cancelled
+export interface WebhookConfig {
+  urls: string[]; // Notified for every batch, alongside any per-batch callbackUrl
+  secret: string; // HMAC-SHA256 signing key; required to send webhooks
+  allowedHosts: string[]; // callbackUrl hosts to accept; empty: public hosts
+  maxAttempts: number;
+  retryDelay: number; // Base delay for exponential backoff (ms)
+  timeout: number; // Per-attempt timeout (ms)
+}
+
 export interface ServerConfig {
   port: number;
   uploadDir: string;
   outputDir: string;
+  dataDir: string;
+  batchStore: "file" | "memory";
+}
+
+// PROVIDER_MODE sets every provider at once; OPENAI_MODE etc. override it
+function providerMode(prefix: string): ProviderMode {
+  const mode = process.env[`${prefix}_MODE`] || process.env.PROVIDER_MODE;
+  return mode === "mock" ? "mock" : "live";
+}
+
+const DEFAULT_MOCK_TEMPLATE = [
+  "Mock analysis by {{model}} for {{filename}}",
+  "",
+  "Input length: {{length}} characters",
+  "Recommendation: Hire",
+  "Score: {{score}}/10",
+].join("\n");
+
+// List prices at the time of writing; override or extend with MODEL_PRICES
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  // Self-hosted and simulated calls cost nothing by default
+  "local/*": { input: 0, output: 0 },
+  "mock/*": { input: 0, output: 0 },
+};
+
+// MODEL_PRICES is a JSON object merged over the defaults, e.g.
+// {"gpt-4o": {"input": 2.5, "output": 10}}
+let priceTableError: string | undefined;
+function loadPrices(): Record<string, ModelPrice> {
+  if (!process.env.MODEL_PRICES) return DEFAULT_PRICES;
+  try {
+    const overrides = JSON.parse(process.env.MODEL_PRICES);
+    const valid =
+      overrides &&
+      typeof overrides === "object" &&
+      Object.values(overrides).every(
+        (price: any) =>
+          typeof price?.input === "number" &&
+          typeof price?.output === "number" &&
+          price.input >= 0 &&
+          price.output >= 0
+      );
+    if (!valid) throw new Error("invalid price entry");
+    return { ...DEFAULT_PRICES, ...overrides };
+  } catch {
+    priceTableError =
+      'MODEL_PRICES must be a JSON object of { "model": { "input": n, "output": n } }';
+    return DEFAULT_PRICES;
+  }
 }
 
+const DEFAULT_JUDGE_PROMPT = [
+  "You are the final reviewer of a hiring interview.",
+  "Several AI models have analysed the same transcript independently.",
+  "Read the transcript and their analyses, resolve any disagreements using the",
+  "evidence in the transcript, and write one merged verdict with a final",
+  "recommendation (Strong hire, Hire, Maybe or No hire), a score out of 10 and",
+  "the key reasons.",
+].join("\n");
+
+// Detectable PII categories (configured terms are always redacted)
+export const REDACTION_TYPES = ["name", "email", "phone", "address", "url"];
+
+const concurrentProcessing = parseInt(process.env.CONCURRENT_PROCESSING || "3");
+
 export const config: ProcessingConfig = {
   concurrent: {
-    processing: parseInt(process.env.CONCURRENT_PROCESSING || "3"),
+    processing: concurrentProcessing,
+    providers: {
+      openai: parseInt(
+        process.env.OPENAI_CONCURRENCY || String(concurrentProcessing)
+      ),
+      claude: parseInt(
+        process.env.CLAUDE_CONCURRENCY || String(concurrentProcessing)
+      ),
+      gemini: parseInt(process.env.GEMINI_CONCURRENCY || "1"),
+      local: parseInt(process.env.LOCAL_LLM_CONCURRENCY || "1"),
+      mock: parseInt(process.env.MOCK_CONCURRENCY || "10"),
+    },
   },
   timeouts: {
-    processing: 120000, // 2 minutes
+    processing: parseInt(process.env.PROCESSING_TIMEOUT_MS || "120000"), // 2 minutes
   },
   retries: {
-    maxAttempts: 2,
-    delay: 1000,
+    maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || "2"),
+    delay: parseInt(process.env.RETRY_DELAY_MS || "1000"),
   },
   files: {
     maxSize: 10 * 1024 * 1024, // 10MB
     maxBatch: 100, // Max 100 transcript files
   },
+  chunking: {
+    maxTokens: parseInt(process.env.CHUNK_MAX_TOKENS || "0"),
+    overlapTokens: parseInt(process.env.CHUNK_OVERLAP_TOKENS || "200"),
+  },
+  comparison: {
+    scoreTolerance: parseFloat(process.env.COMPARISON_SCORE_TOLERANCE || "2"),
+  },
+  scoring: {
+    provider: process.env.SCORING_PROVIDER || "openai",
+    model: process.env.SCORING_MODEL || "",
+  },
+  pricing: {
+    prices: loadPrices(),
+    estimatedOutputTokens: parseInt(
+      process.env.ESTIMATED_OUTPUT_TOKENS || "1000"
+    ),
+  },
+  budget: {
+    maxCost: parseFloat(process.env.BUDGET_MAX_COST || "0"),
+    maxTokens: parseInt(process.env.BUDGET_MAX_TOKENS || "0"),
+    onExceeded: process.env.BUDGET_ON_EXCEEDED || "stop",
+  },
+  cache: {
+    enabled: process.env.RESPONSE_CACHE !== "false",
+    ttlHours: parseFloat(process.env.RESPONSE_CACHE_TTL_HOURS || "0"),
+  },
+  redaction: {
+    enabled: process.env.REDACTION_ENABLED === "true",
+    types: (process.env.REDACTION_TYPES || REDACTION_TYPES.join(","))
+      .split(",")
+      .map((type) => type.trim())
+      .filter(Boolean),
+    terms: (process.env.REDACTION_TERMS || "")
+      .split(",")
+      .map((term) => term.trim())
+      .filter(Boolean),
+  },
+  judge: {
+    provider: process.env.JUDGE_PROVIDER || "openai",
+    model: process.env.JUDGE_MODEL || "",
+    prompt: process.env.JUDGE_PROMPT || DEFAULT_JUDGE_PROMPT,
+  },
 };
 
 export const apiConfig: APIConfig = {
   openai: {
+    mode: providerMode("OPENAI"),
     apiKey: process.env.OPENAI_API_KEY || "",
     defaultModel: process.env.OPENAI_MODEL || "gpt-4o-mini",
     maxTokens: 4000,
+    contextWindow: parseInt(process.env.OPENAI_CONTEXT_WINDOW || "128000"),
+    rateLimit: {
+      rpm: parseInt(process.env.OPENAI_RPM || "500"),
+      tpm: parseInt(process.env.OPENAI_TPM || "200000"),
+    },
   },
   anthropic: {
+    mode: providerMode("ANTHROPIC"),
     apiKey: process.env.ANTHROPIC_API_KEY || "",
     defaultModel: process.env.ANTHROPIC_MODEL || "claude-sonnet-4-20250514",
     maxTokens: 4000,
+    contextWindow: parseInt(process.env.ANTHROPIC_CONTEXT_WINDOW || "200000"),
+    rateLimit: {
+      rpm: parseInt(process.env.ANTHROPIC_RPM || "50"),
+      tpm: parseInt(process.env.ANTHROPIC_TPM || "40000"),
+    },
   },
   gemini: {
+    mode: providerMode("GEMINI"),
     apiKey: process.env.GEMINI_API_KEY || "",
     defaultModel: process.env.GEMINI_MODEL || "gemini-2.5-flash",
     maxTokens: 4000,
+    contextWindow: parseInt(process.env.GEMINI_CONTEXT_WINDOW || "1000000"),
+    rateLimit: {
+      rpm: parseInt(process.env.GEMINI_RPM || "10"),
+      tpm: parseInt(process.env.GEMINI_TPM || "250000"),
+    },
+  },
+  local: {
+    baseUrl: process.env.LOCAL_LLM_BASE_URL || "",
+    apiKey: process.env.LOCAL_LLM_API_KEY || "",
+    authHeader: process.env.LOCAL_LLM_AUTH_HEADER || "Authorization",
+    defaultModel: process.env.LOCAL_LLM_MODEL || "llama3.1",
+    maxTokens: parseInt(process.env.LOCAL_LLM_MAX_TOKENS || "4000"),
+    contextWindow: parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || "8192"),
+    rateLimit: {
+      rpm: parseInt(process.env.LOCAL_LLM_RPM || "0"),
+      tpm: parseInt(process.env.LOCAL_LLM_TPM || "0"),
+    },
   },
+  mock: {
+    defaultModel: process.env.MOCK_MODEL || "mock-model",
+    latencyMs: parseInt(process.env.MOCK_LATENCY_MS || "200"),
+    failureRate: parseFloat(process.env.MOCK_FAILURE_RATE || "0"),
+    failureStatus: parseInt(process.env.MOCK_FAILURE_STATUS || "503"),
+    template: process.env.MOCK_RESPONSE_TEMPLATE || DEFAULT_MOCK_TEMPLATE,
+    contextWindow: parseInt(process.env.MOCK_CONTEXT_WINDOW || "32000"),
+    rateLimit: { rpm: 0, tpm: 0 },
+  },
+};
+
+export const webhookConfig: WebhookConfig = {
+  urls: (process.env.WEBHOOK_URLS || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean),
+  secret: process.env.WEBHOOK_SECRET || "",
+  allowedHosts: (process.env.WEBHOOK_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "5"),
+  retryDelay: parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || "2000"),
+  timeout: parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000"),
 };
 
 export const serverConfig: ServerConfig = {
   port: parseInt(process.env.PORT || "3000"),
   uploadDir: process.env.UPLOAD_DIR || "uploads",
   outputDir: process.env.OUTPUT_DIR || "output",
+  dataDir: process.env.DATA_DIR || "data",
+  batchStore: (process.env.BATCH_STORE || "file") as ServerConfig["batchStore"],
 };
 
+export function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
 export function validateConfig(): void {
   const errors: string[] = [];
 
-  if (!apiConfig.openai.apiKey) errors.push("OPENAI_API_KEY required");
-  if (!apiConfig.anthropic.apiKey) errors.push("ANTHROPIC_API_KEY required");
-  if (!apiConfig.gemini.apiKey) errors.push("GEMINI_API_KEY required");
+  // API keys are only needed for providers that make real calls
+  const { openai, anthropic, gemini, mock } = apiConfig;
+  if (openai.mode === "live" && !openai.apiKey) {
+    errors.push("OPENAI_API_KEY required (or set OPENAI_MODE=mock)");
+  }
+  if (anthropic.mode === "live" && !anthropic.apiKey) {
+    errors.push("ANTHROPIC_API_KEY required (or set ANTHROPIC_MODE=mock)");
+  }
+  if (gemini.mode === "live" && !gemini.apiKey) {
+    errors.push("GEMINI_API_KEY required (or set GEMINI_MODE=mock)");
+  }
+  if (!(mock.failureRate >= 0 && mock.failureRate <= 1)) {
+    errors.push("MOCK_FAILURE_RATE must be between 0 and 1");
+  }
+  const concurrency = [
+    config.concurrent.processing,
+    ...Object.values(config.concurrent.providers),
+  ];
+  if (concurrency.some((n) => !Number.isInteger(n) || n < 1)) {
+    errors.push("Concurrency limits must be positive integers");
+  }
+  if (
+    !Number.isInteger(config.retries.maxAttempts) ||
+    config.retries.maxAttempts < 1
+  ) {
+    errors.push("RETRY_MAX_ATTEMPTS must be a positive integer");
+  }
+  const durations = {
+    RETRY_DELAY_MS: config.retries.delay,
+    PROCESSING_TIMEOUT_MS: config.timeouts.processing,
+    WEBHOOK_RETRY_DELAY_MS: webhookConfig.retryDelay,
+    WEBHOOK_TIMEOUT_MS: webhookConfig.timeout,
+  };
+  for (const [name, ms] of Object.entries(durations)) {
+    if (!Number.isFinite(ms) || ms <= 0) {
+      errors.push(`${name} must be a positive number of milliseconds`);
+    }
+  }
+  if (apiConfig.local.baseUrl) {
+    try {
+      new URL(apiConfig.local.baseUrl);
+    } catch {
+      errors.push("LOCAL_LLM_BASE_URL must be a valid URL");
+    }
+  }
+  for (const url of webhookConfig.urls) {
+    if (!isHttpUrl(url)) {
+      errors.push(`WEBHOOK_URLS contains an invalid URL: ${url}`);
+    }
+  }
+  if (webhookConfig.urls.length > 0 && !webhookConfig.secret) {
+    errors.push("WEBHOOK_SECRET is required when WEBHOOK_URLS is set");
+  }
+  if (
+    !Number.isInteger(webhookConfig.maxAttempts) ||
+    webhookConfig.maxAttempts < 1
+  ) {
+    errors.push("WEBHOOK_MAX_ATTEMPTS must be a positive integer");
+  }
+  if (priceTableError) errors.push(priceTableError);
+  if (!(config.budget.maxCost >= 0) || !(config.budget.maxTokens >= 0)) {
+    errors.push("BUDGET_MAX_COST and BUDGET_MAX_TOKENS must be 0 or more");
+  }
+  if (!(config.cache.ttlHours >= 0)) {
+    errors.push("RESPONSE_CACHE_TTL_HOURS must be 0 or more");
+  }
+  if (!["stop", "pause"].includes(config.budget.onExceeded)) {
+    errors.push("BUDGET_ON_EXCEEDED must be 'stop' or 'pause'");
+  }
+  const unknownTypes = config.redaction.types.filter(
+    (type) => !REDACTION_TYPES.includes(type)
+  );
+  if (unknownTypes.length > 0) {
+    errors.push(
+      `REDACTION_TYPES contains unknown type(s): ${unknownTypes.join(", ")}`
+    );
+  }
+  if (!["file", "memory"].includes(serverConfig.batchStore)) {
+    errors.push("BATCH_STORE must be 'file' or 'memory'");
+  }
 
   if (errors.length > 0) {
     console.error("❌ Configuration errors:", errors);
@@ -99,6 +483,42 @@ export function validateConfig(): void {
   console.log("✅ Configuration validated");
   console.log(`⚡ Processing settings:`);
   console.log(`   • Concurrent processing: ${config.concurrent.processing}`);
+  const concurrent = config.concurrent.providers;
+  console.log(
+    `   • Provider concurrency: OpenAI ${concurrent.openai}, Claude ${concurrent.claude}, Gemini ${concurrent.gemini}`
+  );
+  const mocked = [
+    openai.mode === "mock" && "OpenAI",
+    anthropic.mode === "mock" && "Claude",
+    gemini.mode === "mock" && "Gemini",
+  ].filter(Boolean);
+  if (mocked.length > 0) {
+    console.log(`   • Mock mode: ${mocked.join(", ")}`);
+  }
+  if (apiConfig.local.baseUrl) {
+    console.log(`   • Local model endpoint: ${apiConfig.local.baseUrl}`);
+  }
+  if (webhookConfig.urls.length > 0) {
+    console.log(`   • Webhooks: ${webhookConfig.urls.length} global URL(s)`);
+  }
+  if (config.budget.maxCost > 0 || config.budget.maxTokens > 0) {
+    const caps = [
+      config.budget.maxCost > 0 && `$${config.budget.maxCost}`,
+      config.budget.maxTokens > 0 && `${config.budget.maxTokens} tokens`,
+    ].filter(Boolean);
+    console.log(
+      `   • Batch budget: ${caps.join(", ")} (${config.budget.onExceeded} when reached)`
+    );
+  }
+  if (!config.cache.enabled) {
+    console.log(`   • Response cache: off`);
+  }
+  if (config.redaction.enabled) {
+    console.log(`   • PII redaction: ${config.redaction.types.join(", ")}`);
+  }
   console.log(`   • Max transcript files: ${config.files.maxBatch}`);
+  console.log(
+    `   • Retries: ${config.retries.maxAttempts} attempt(s), timeout ${config.timeouts.processing / 1000}s`
+  );
   console.log(`   • Max file size: ${config.files.maxSize / 1024 / 1024}MB`);
 }
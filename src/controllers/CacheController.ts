@@ -0,0 +1,141 @@
+// src/controllers/CacheController.ts
+import { Request, Response } from "express";
+import { CacheFilter, ResponseCache } from "../services/ResponseCache";
+
+export class CacheController {
+  private cache: ResponseCache;
+
+  constructor(cache: ResponseCache) {
+    this.cache = cache;
+  }
+
+  // Cache statistics and entries (without the cached analysis text)
+  listCache = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { filter, error } = this.parseFilter(req.query);
+      if (!filter) {
+        res.status(400).json({
+          success: false,
+          error,
+        });
+        return;
+      }
+
+      const entries = this.cache.list(filter).map(({ analysis, ...entry }) => ({
+        ...entry,
+        tokens: analysis.metadata?.tokens,
+        cost: analysis.metadata?.cost,
+      }));
+
+      res.status(200).json({
+        success: true,
+        data: { stats: this.cache.stats(filter), entries },
+      });
+    } catch (error) {
+      console.error("Error listing cache:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // One entry with its cached analysis
+  getCacheEntry = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const entry = this.cache.getEntry(req.params.key);
+
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          error: "Cache entry not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      console.error("Error getting cache entry:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Purge every entry, or only those matching provider, model and before
+  purgeCache = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { filter, error } = this.parseFilter(req.query);
+      if (!filter) {
+        res.status(400).json({
+          success: false,
+          error,
+        });
+        return;
+      }
+
+      const removed = this.cache.purge(filter);
+      console.log(`🗑️ Purged ${removed} cached response(s)`);
+
+      res.status(200).json({
+        success: true,
+        data: { removed },
+      });
+    } catch (error) {
+      console.error("Error purging cache:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  deleteCacheEntry = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.cache.remove(req.params.key)) {
+        res.status(404).json({
+          success: false,
+          error: "Cache entry not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { removed: 1 },
+      });
+    } catch (error) {
+      console.error("Error deleting cache entry:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  private parseFilter(query: Request["query"]): {
+    filter?: CacheFilter;
+    error?: string;
+  } {
+    const { provider, model, before } = query;
+    let beforeDate: Date | undefined;
+    if (before !== undefined) {
+      beforeDate = new Date(String(before));
+      if (isNaN(beforeDate.getTime())) {
+        return { error: "before must be an ISO date" };
+      }
+    }
+
+    return {
+      filter: {
+        provider: provider ? String(provider) : undefined,
+        model: model ? String(model) : undefined,
+        before: beforeDate,
+      },
+    };
+  }
+}
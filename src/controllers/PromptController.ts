@@ -0,0 +1,241 @@
+// src/controllers/PromptController.ts
+import { Request, Response } from "express";
+import { PromptLibrary, parsePromptContent } from "../services/PromptLibrary";
+
+export class PromptController {
+  private library: PromptLibrary;
+
+  constructor(library: PromptLibrary) {
+    this.library = library;
+    this.initializeLibrary();
+  }
+
+  private async initializeLibrary(): Promise<void> {
+    try {
+      await this.library.initialize();
+      console.log("✅ PromptController initialized");
+    } catch (error) {
+      console.error("❌ Failed to initialize PromptController:", error);
+    }
+  }
+
+  // List saved prompts (latest version number only)
+  listPrompts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const prompts = this.library.list();
+
+      res.status(200).json({
+        success: true,
+        data: { prompts, total: prompts.length },
+      });
+    } catch (error) {
+      console.error("Error listing prompts:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Get a saved prompt with all of its versions
+  getPrompt = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const prompt = this.library.get(req.params.promptId);
+
+      if (!prompt) {
+        res.status(404).json({
+          success: false,
+          error: "Prompt not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: prompt,
+      });
+    } catch (error) {
+      console.error("Error getting prompt:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Save a new prompt as version 1
+  createPrompt = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, description, note } = req.body;
+
+      if (typeof name !== "string" || !name.trim()) {
+        res.status(400).json({
+          success: false,
+          error: "Prompt name is required",
+        });
+        return;
+      }
+
+      const { content, error } = parsePromptContent(req.body);
+      if (!content) {
+        res.status(400).json({
+          success: false,
+          error,
+        });
+        return;
+      }
+
+      const prompt = await this.library.create(
+        name.trim(),
+        typeof description === "string" ? description.trim() : undefined,
+        content,
+        typeof note === "string" ? note.trim() : undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        data: prompt,
+      });
+    } catch (error) {
+      console.error("Error creating prompt:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Rename a prompt or change its description
+  updatePrompt = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, description } = req.body;
+
+      if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+        res.status(400).json({
+          success: false,
+          error: "Prompt name cannot be empty",
+        });
+        return;
+      }
+
+      const prompt = await this.library.rename(req.params.promptId, {
+        name: name?.trim(),
+        description:
+          typeof description === "string" ? description.trim() : undefined,
+      });
+
+      if (!prompt) {
+        res.status(404).json({
+          success: false,
+          error: "Prompt not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: prompt,
+      });
+    } catch (error) {
+      console.error("Error updating prompt:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Append a new immutable version
+  addPromptVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { content, error } = parsePromptContent(req.body);
+      if (!content) {
+        res.status(400).json({
+          success: false,
+          error,
+        });
+        return;
+      }
+
+      const { note } = req.body;
+      const version = await this.library.addVersion(
+        req.params.promptId,
+        content,
+        typeof note === "string" ? note.trim() : undefined
+      );
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          error: "Prompt not found",
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: version,
+      });
+    } catch (error) {
+      console.error("Error adding prompt version:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Get one version of a prompt
+  getPromptVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { promptId, version } = req.params;
+      const saved = this.library.getVersion(promptId, parseInt(version));
+
+      if (!saved) {
+        res.status(404).json({
+          success: false,
+          error: "Prompt or version not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: saved,
+      });
+    } catch (error) {
+      console.error("Error getting prompt version:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Delete a prompt and all of its versions
+  deletePrompt = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { promptId } = req.params;
+      const success = await this.library.delete(promptId);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: "Prompt not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { promptId, message: "Prompt deleted successfully" },
+      });
+    } catch (error) {
+      console.error("Error deleting prompt:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+}
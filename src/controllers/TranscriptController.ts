@@ -1,17 +1,60 @@
 // src/controllers/TranscriptController.ts
 import { Request, Response } from "express";
-import { TranscriptProcessor } from "../services/TranscriptProcessor";
-import { JobConfig } from "../types";
+import {
+  JUDGE_TARGET_ID,
+  TranscriptProcessor,
+} from "../services/TranscriptProcessor";
+import { createBatchStore } from "../services/BatchStore";
+import { ResponseCache } from "../services/ResponseCache";
+import {
+  FileError,
+  JobConfig,
+  JudgeConfig,
+  ModelTarget,
+  ScoringConfig,
+  PromptContent,
+  PromptRef,
+  RedactionConfig,
+  RedactionType,
+  BudgetConfig,
+} from "../types";
+import {
+  ModelTargetSpec,
+  assignTargetIds,
+  targetSlug,
+  createDefaultRegistry,
+} from "../providers";
+import { checkOutputSchema } from "../services/StructuredOutput";
+import { checkCallbackUrl } from "../services/WebhookDispatcher";
+import {
+  DEFAULT_SCORING,
+  checkScorePattern,
+  leaderboardToCsv,
+} from "../services/Leaderboard";
+import { PromptLibrary, parsePromptContent } from "../services/PromptLibrary";
+import { ParsedUpload, parseUploads } from "../services/TranscriptParser";
 import archiver from "archiver";
-import { serverConfig } from "../config";
+import {
+  REDACTION_TYPES,
+  config,
+  isHttpUrl,
+  serverConfig,
+  webhookConfig,
+} from "../config";
 import path from "path";
 import fs from "fs";
 
 export class TranscriptController {
   private processor: TranscriptProcessor;
+  private prompts: PromptLibrary;
 
-  constructor() {
-    this.processor = new TranscriptProcessor();
+  constructor(prompts: PromptLibrary, cache: ResponseCache) {
+    this.processor = new TranscriptProcessor(
+      createBatchStore(),
+      createDefaultRegistry(),
+      cache
+    );
+    this.prompts = prompts;
     this.initializeProcessor();
   }
 
@@ -26,77 +69,69 @@ export class TranscriptController {
 
   // Upload transcripts and start processing
   processTranscripts = async (req: Request, res: Response): Promise<void> => {
+    let batchId: string | undefined;
     try {
-      const files = (req as Request & { files?: Express.Multer.File[] }).files;
-      const { jobDescription, prompt, openaiModel, claudeModel, geminiModel } =
-        req.body;
-
-      if (!files || files.length === 0) {
+      const { jobConfig, error: configError } = this.parseJobConfig(req.body);
+      const callbackError =
+        jobConfig?.callbackUrl &&
+        (await checkCallbackUrl(jobConfig.callbackUrl));
+      if (!jobConfig || callbackError) {
+        this.discardUploads(req);
         res.status(400).json({
           success: false,
-          error: "No files uploaded",
+          error: configError || callbackError,
         });
         return;
       }
 
-      const txtFiles = files.filter(
-        (file) =>
-          file.mimetype === "text/plain" ||
-          file.originalname.toLowerCase().endsWith(".txt")
-      );
-
-      if (txtFiles.length === 0) {
+      const {
+        uploads,
+        fileErrors,
+        error: uploadError,
+      } = await this.readUploads(req);
+      if (!uploads) {
+        this.discardUploads(req);
         res.status(400).json({
           success: false,
-          error: "No valid TXT files found",
+          error: uploadError,
+          fileErrors,
         });
         return;
       }
+      const parsedCount = uploads.filter((upload) => !upload.error).length;
 
-      // Validate inputs
-      if (!jobDescription || jobDescription.trim().length < 20) {
-        res.status(400).json({
-          success: false,
-          error: "Job description must be at least 20 characters",
-        });
-        return;
+      console.log(`🚀 Starting transcript processing:`);
+      console.log(`   • Files: ${parsedCount}`);
+      for (const fileError of fileErrors) {
+        console.log(`   ⚠️ ${fileError.filename}: ${fileError.error}`);
       }
-
-      if (!prompt || prompt.trim().length < 20) {
-        res.status(400).json({
-          success: false,
-          error: "Prompt must be at least 20 characters",
-        });
-        return;
+      const ref = jobConfig.promptRef;
+      if (ref) console.log(`   • Prompt: ${ref.name} v${ref.version}`);
+      if (jobConfig.mock) console.log(`   • Mock mode: no provider API calls`);
+      if (jobConfig.judge) {
+        console.log(
+          `   • Judge: ${jobConfig.judge.provider} / ${jobConfig.judge.model}`
+        );
       }
-
-      if (!openaiModel || !claudeModel || !geminiModel) {
-        res.status(400).json({
-          success: false,
-          error:
-            "All model names are required (openaiModel, claudeModel, geminiModel)",
-        });
-        return;
+      if (jobConfig.callbackUrl) {
+        console.log(`   • Callback: ${jobConfig.callbackUrl}`);
+      }
+      if (jobConfig.candidateSpeaker) {
+        console.log(`   • Candidate speaker: ${jobConfig.candidateSpeaker}`);
+      }
+      if (jobConfig.redaction) {
+        console.log(
+          `   • PII redaction: ${jobConfig.redaction.types.join(", ")}`
+        );
+      }
+      if (jobConfig.outputSchema) console.log(`   • Structured output: on`);
+      if (jobConfig.cache === false) console.log(`   • Response cache: off`);
+      for (const target of jobConfig.models) {
+        console.log(`   • ${target.id}: ${target.provider} / ${target.model}`);
       }
-
-      const jobConfig: JobConfig = {
-        jobDescription: jobDescription.trim(),
-        prompt: prompt.trim(),
-        models: {
-          openai: openaiModel.trim(),
-          claude: claudeModel.trim(),
-          gemini: geminiModel.trim(),
-        },
-      };
-
-      console.log(`🚀 Starting transcript processing:`);
-      console.log(`   • Files: ${txtFiles.length}`);
-      console.log(`   • OpenAI Model: ${jobConfig.models.openai}`);
-      console.log(`   • Claude Model: ${jobConfig.models.claude}`);
-      console.log(`   • Gemini Model: ${jobConfig.models.gemini}`);
 
       // Create batch and start processing
-      const batchId = await this.processor.createBatch(txtFiles, jobConfig);
+      batchId = await this.processor.createBatch(uploads, jobConfig);
 
       // Start processing in background
       this.processor.startProcessing(batchId).catch((error) => {
@@ -107,13 +142,15 @@ export class TranscriptController {
         success: true,
         data: {
           batchId,
-          totalFiles: txtFiles.length,
+          totalFiles: parsedCount,
           status: "processing",
-          message: `Processing ${txtFiles.length} transcript file(s) with multiple AI models`,
+          message: `Processing ${parsedCount} transcript file(s) with multiple AI models`,
+          fileErrors,
         },
       });
     } catch (error) {
       console.error("Error processing transcripts:", error);
+      if (!batchId) this.discardUploads(req);
       res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : "Internal server error",
@@ -121,6 +158,480 @@ export class TranscriptController {
     }
   };
 
+  // Expected tokens and cost of a batch, from the same form as /process.
+  // Nothing is sent to a provider and the uploads are discarded.
+  estimateCost = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { jobConfig, error: configError } = this.parseJobConfig(req.body);
+      if (!jobConfig) {
+        res.status(400).json({
+          success: false,
+          error: configError,
+        });
+        return;
+      }
+
+      const {
+        uploads,
+        fileErrors,
+        error: uploadError,
+      } = await this.readUploads(req);
+      if (!uploads) {
+        res.status(400).json({
+          success: false,
+          error: uploadError,
+          fileErrors,
+        });
+        return;
+      }
+
+      const estimate = this.processor.estimateBatch(uploads, jobConfig);
+      res.json({
+        success: true,
+        data: { ...estimate, fileErrors },
+      });
+    } catch (error) {
+      console.error("Error estimating cost:", error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      });
+    } finally {
+      this.discardUploads(req);
+    }
+  };
+
+  // Normalize every upload to plain text; files that fail are reported
+  // individually and the rest go ahead. uploads is missing when no file
+  // could be used.
+  private async readUploads(req: Request): Promise<{
+    uploads?: ParsedUpload[];
+    fileErrors: FileError[];
+    error?: string;
+  }> {
+    const { files = [], rejectedFiles = [] } = req as Request & {
+      files?: Express.Multer.File[];
+      rejectedFiles?: FileError[];
+    };
+    if (files.length === 0) {
+      return {
+        fileErrors: rejectedFiles,
+        error:
+          rejectedFiles.length > 0
+            ? "No supported transcript files found"
+            : "No files uploaded",
+      };
+    }
+
+    const uploads = await parseUploads(files);
+    const fileErrors: FileError[] = [
+      ...rejectedFiles,
+      ...uploads
+        .filter((upload) => upload.error)
+        .map((upload) => ({
+          filename: upload.file.originalname,
+          error: upload.error!,
+        })),
+    ];
+    if (uploads.every((upload) => upload.error)) {
+      return {
+        fileErrors,
+        error: "None of the uploaded files could be parsed",
+      };
+    }
+    return { uploads, fileErrors };
+  }
+
+  // Uploads that do not become part of a batch are not kept
+  private discardUploads(req: Request): void {
+    for (const file of (req.files as Express.Multer.File[]) || []) {
+      fs.promises.rm(file.path, { force: true }).catch((error) => {
+        console.warn(`⚠️ Could not remove upload ${file.path}:`, error);
+      });
+    }
+  }
+
+  // Everything in the /process form except the files, validated into a
+  // job configuration
+  private parseJobConfig(body: any): { jobConfig?: JobConfig; error?: string } {
+    const { mock, cache, outputSchema, callbackUrl, candidateSpeaker } = body;
+
+    const {
+      content,
+      ref,
+      error: promptError,
+    } = this.resolvePromptContent(body);
+    if (!content) {
+      return { error: promptError };
+    }
+
+    const { targets, error: modelsError } = this.parseModelTargets(body);
+    if (!targets) {
+      return { error: modelsError };
+    }
+
+    // Optional JSON Schema (a JSON string when sent as multipart form data)
+    let schema: Record<string, unknown> | undefined;
+    if (outputSchema !== undefined && outputSchema !== "") {
+      try {
+        schema =
+          typeof outputSchema === "string"
+            ? JSON.parse(outputSchema)
+            : outputSchema;
+      } catch {
+        return { error: "outputSchema must be valid JSON" };
+      }
+
+      const schemaError = checkOutputSchema(schema);
+      if (schemaError) {
+        return { error: schemaError };
+      }
+    }
+
+    const { judge, error: judgeError } = this.parseJudge(body.judge);
+    if (judgeError) {
+      return { error: judgeError };
+    }
+
+    const { scoring, error: scoringError } = this.parseScoring(body.scoring);
+    if (scoringError) {
+      return { error: scoringError };
+    }
+
+    const { redaction, error: redactionError } = this.parseRedaction(
+      body.redact
+    );
+    if (redactionError) {
+      return { error: redactionError };
+    }
+
+    const { budget, error: budgetError } = this.parseBudget(body.budget);
+    if (budgetError) {
+      return { error: budgetError };
+    }
+
+    if (candidateSpeaker && String(candidateSpeaker).trim().length > 100) {
+      return { error: "candidateSpeaker must be at most 100 characters" };
+    }
+
+    if (callbackUrl && !isHttpUrl(String(callbackUrl))) {
+      return { error: "callbackUrl must be an http(s) URL" };
+    }
+    if (callbackUrl && !webhookConfig.secret) {
+      return { error: "callbackUrl requires WEBHOOK_SECRET on the server" };
+    }
+
+    return {
+      jobConfig: {
+        ...content,
+        models: targets,
+        mock: mock === true || mock === "true",
+        cache: cache === false || cache === "false" ? false : undefined,
+        outputSchema: schema,
+        promptRef: ref,
+        callbackUrl: callbackUrl ? String(callbackUrl) : undefined,
+        candidateSpeaker: String(candidateSpeaker || "").trim() || undefined,
+        redaction,
+        budget,
+        judge,
+        scoring,
+      },
+    };
+  }
+
+  // A saved prompt (promptId, optional promptVersion defaulting to the
+  // latest) takes the place of the jobDescription, prompt and template fields
+  private resolvePromptContent(body: any): {
+    content?: PromptContent;
+    ref?: PromptRef;
+    error?: string;
+  } {
+    if (!body.promptId) return parsePromptContent(body);
+
+    let version: number | undefined;
+    if (body.promptVersion !== undefined && body.promptVersion !== "") {
+      version = Number(body.promptVersion);
+      if (!Number.isInteger(version) || version < 1) {
+        return { error: "promptVersion must be a positive integer" };
+      }
+    }
+
+    const saved = this.prompts.resolve(String(body.promptId), version);
+    if (!saved) {
+      return { error: "Saved prompt or version not found" };
+    }
+    return saved;
+  }
+
+  // Models come either as a `models` list of { provider, model, id? } (JSON
+  // when sent as multipart form data) or as the legacy openaiModel /
+  // claudeModel / geminiModel fields
+  private parseModelTargets(body: any): {
+    targets?: ModelTarget[];
+    error?: string;
+  } {
+    let specs: ModelTargetSpec[];
+
+    if (body.models !== undefined) {
+      try {
+        specs =
+          typeof body.models === "string"
+            ? JSON.parse(body.models)
+            : body.models;
+      } catch {
+        return { error: "models must be a JSON array" };
+      }
+      if (!Array.isArray(specs)) {
+        return { error: "models must be an array of { provider, model }" };
+      }
+    } else {
+      const legacy: [string, unknown][] = [
+        ["openai", body.openaiModel],
+        ["claude", body.claudeModel],
+        ["gemini", body.geminiModel],
+      ];
+      specs = legacy
+        .filter(([, model]) => typeof model === "string" && model.trim())
+        .map(([provider, model]) => ({ provider, model: model as string }));
+    }
+
+    if (specs.length === 0) {
+      return { error: "At least one model is required" };
+    }
+
+    const providers = new Set(
+      this.processor.getProviders().map((provider) => provider.name)
+    );
+    for (const spec of specs) {
+      if (
+        typeof spec?.provider !== "string" ||
+        typeof spec?.model !== "string" ||
+        !spec.model.trim()
+      ) {
+        return { error: "Each model needs a provider and a model name" };
+      }
+      if (!providers.has(spec.provider)) {
+        return { error: `Unknown provider: ${spec.provider}` };
+      }
+      if (spec.id !== undefined && typeof spec.id !== "string") {
+        return { error: "Model id must be a string" };
+      }
+      // Checked as normalized, the way the id is used
+      const slug = spec.id?.trim() ? targetSlug(spec.id) : undefined;
+      if (slug !== undefined && !/[a-z0-9]/.test(slug)) {
+        return { error: `Model id "${spec.id}" needs a letter or digit` };
+      }
+      if (slug === JUDGE_TARGET_ID) {
+        return {
+          error: `"${JUDGE_TARGET_ID}" is reserved for the judge stage`,
+        };
+      }
+    }
+
+    return {
+      targets: assignTargetIds(
+        specs.map((spec) => ({
+          provider: spec.provider,
+          model: spec.model.trim(),
+          id: typeof spec.id === "string" ? spec.id.trim() : undefined,
+        }))
+      ),
+    };
+  }
+
+  // `budget` is a { maxCost?, maxTokens?, onExceeded? } object over BUDGET_*
+  private parseBudget(value: unknown): {
+    budget?: BudgetConfig;
+    error?: string;
+  } {
+    const defaults = config.budget;
+    let spec: { maxCost?: unknown; maxTokens?: unknown; onExceeded?: unknown } =
+      {};
+    if (value !== undefined && value !== "") {
+      try {
+        spec = typeof value === "string" ? JSON.parse(value) : value;
+      } catch {
+        return { error: "budget must be a JSON object" };
+      }
+      if (!spec || typeof spec !== "object" || Array.isArray(spec)) {
+        return { error: "budget must be a JSON object" };
+      }
+    }
+
+    const maxCost = spec.maxCost ?? defaults.maxCost;
+    const maxTokens = spec.maxTokens ?? defaults.maxTokens;
+    if (typeof maxCost !== "number" || !(maxCost >= 0)) {
+      return { error: "budget.maxCost must be a number of USD (0 = no cap)" };
+    }
+    if (!Number.isInteger(maxTokens) || (maxTokens as number) < 0) {
+      return {
+        error: "budget.maxTokens must be a whole number of tokens (0 = no cap)",
+      };
+    }
+
+    const onExceeded = spec.onExceeded ?? defaults.onExceeded;
+    if (onExceeded !== "stop" && onExceeded !== "pause") {
+      return { error: "budget.onExceeded must be 'stop' or 'pause'" };
+    }
+
+    if (!maxCost && !maxTokens) return {};
+    return {
+      budget: {
+        maxCost: maxCost || undefined,
+        maxTokens: (maxTokens as number) || undefined,
+        onExceeded,
+      },
+    };
+  }
+
+  // `redact` is "true" (REDACTION_* defaults), "false", or a { types?, terms? }
+  // object (JSON when sent as form data); omitted follows REDACTION_ENABLED.
+  // Configured terms are always added to the batch's own.
+  private parseRedaction(value: unknown): {
+    redaction?: RedactionConfig;
+    error?: string;
+  } {
+    const defaults = config.redaction;
+    if (value === undefined || value === "") {
+      value = defaults.enabled;
+    }
+    if (value === false || value === "false") return {};
+
+    let spec: { types?: unknown; terms?: unknown } = {};
+    if (value !== true && value !== "true") {
+      try {
+        spec = typeof value === "string" ? JSON.parse(value) : value;
+      } catch {
+        return { error: "redact must be true, false or a JSON object" };
+      }
+      if (!spec || typeof spec !== "object" || Array.isArray(spec)) {
+        return { error: "redact must be true, false or a JSON object" };
+      }
+    }
+
+    const types = spec.types ?? defaults.types;
+    if (
+      !Array.isArray(types) ||
+      types.some((type) => !REDACTION_TYPES.includes(type))
+    ) {
+      return {
+        error: `redact.types must be a list of: ${REDACTION_TYPES.join(", ")}`,
+      };
+    }
+
+    const terms = spec.terms ?? [];
+    if (
+      !Array.isArray(terms) ||
+      terms.some((term) => typeof term !== "string")
+    ) {
+      return { error: "redact.terms must be a list of strings" };
+    }
+
+    return {
+      redaction: {
+        types: types as RedactionType[],
+        terms: Array.from(
+          new Set(
+            [...defaults.terms, ...terms]
+              .map((term: string) => term.trim())
+              .filter(Boolean)
+          )
+        ),
+      },
+    };
+  }
+
+  // The judge stage is off unless `judge` is "true" (JUDGE_* defaults) or a
+  // { provider?, model?, prompt? } object (JSON when sent as form data)
+  private parseJudge(value: unknown): { judge?: JudgeConfig; error?: string } {
+    if (value === undefined || value === "" || value === false) return {};
+    if (value === "false") return {};
+
+    let spec: Partial<JudgeConfig> = {};
+    if (value !== true && value !== "true") {
+      try {
+        spec = typeof value === "string" ? JSON.parse(value) : value;
+      } catch {
+        return { error: "judge must be true or a JSON object" };
+      }
+      if (!spec || typeof spec !== "object" || Array.isArray(spec)) {
+        return { error: "judge must be true or a JSON object" };
+      }
+    }
+
+    const providerName = spec.provider || config.judge.provider;
+    const provider = this.processor
+      .getProviders()
+      .find((p) => p.name === providerName);
+    if (!provider) {
+      return { error: `Unknown judge provider: ${providerName}` };
+    }
+
+    const model =
+      (typeof spec.model === "string" && spec.model.trim()) ||
+      config.judge.model ||
+      provider.defaultModel;
+    const prompt =
+      (typeof spec.prompt === "string" && spec.prompt.trim()) ||
+      config.judge.prompt;
+
+    return { judge: { provider: provider.name, model, prompt } };
+  }
+
+  // Optional { method?, field?, pattern?, provider?, model? } (JSON when sent
+  // as form data); the "model" method falls back to the SCORING_* defaults
+  private parseScoring(value: unknown): {
+    scoring?: ScoringConfig;
+    error?: string;
+  } {
+    if (value === undefined || value === "") return {};
+
+    let spec: Partial<ScoringConfig>;
+    try {
+      spec = typeof value === "string" ? JSON.parse(value) : value;
+    } catch {
+      return { error: "scoring must be a JSON object" };
+    }
+    if (!spec || typeof spec !== "object" || Array.isArray(spec)) {
+      return { error: "scoring must be a JSON object" };
+    }
+
+    const method = spec.method || DEFAULT_SCORING.method;
+    if (method !== "regex" && method !== "model") {
+      return { error: 'scoring.method must be "regex" or "model"' };
+    }
+
+    const scoring: ScoringConfig = {
+      method,
+      field:
+        (typeof spec.field === "string" && spec.field.trim()) ||
+        DEFAULT_SCORING.field,
+    };
+
+    if (method === "regex" && spec.pattern) {
+      const patternError = checkScorePattern(String(spec.pattern));
+      if (patternError) return { error: patternError };
+      scoring.pattern = String(spec.pattern);
+    }
+
+    if (method === "model") {
+      const providerName = spec.provider || config.scoring.provider;
+      const provider = this.processor
+        .getProviders()
+        .find((p) => p.name === providerName);
+      if (!provider) {
+        return { error: `Unknown scoring provider: ${providerName}` };
+      }
+      scoring.provider = provider.name;
+      scoring.model =
+        (typeof spec.model === "string" && spec.model.trim()) ||
+        config.scoring.model ||
+        provider.defaultModel;
+    }
+
+    return { scoring };
+  }
+
   // Get batch progress
   getBatchProgress = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -148,12 +659,271 @@ export class TranscriptController {
     }
   };
 
+  // Stream batch progress as Server-Sent Events. A "progress" snapshot is
+  // sent first, then every event after Last-Event-ID (or ?lastEventId=)
+  streamBatchEvents = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { batchId } = req.params;
+      const progress = this.processor.getBatchProgress(batchId);
+
+      if (!progress) {
+        res.status(404).json({
+          success: false,
+          error: "Batch not found",
+        });
+        return;
+      }
+
+      const lastEventId = parseInt(
+        req.header("Last-Event-ID") || String(req.query.lastEventId || "")
+      );
+
+      // no-transform keeps the compression middleware from buffering the stream
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.write("retry: 3000\n\n");
+      res.write(`event: progress\ndata: ${JSON.stringify(progress)}\n\n`);
+
+      const unsubscribe = this.processor.subscribeToEvents(
+        batchId,
+        isNaN(lastEventId) ? undefined : lastEventId,
+        (event) => {
+          res.write(
+            `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({
+              ...event.data,
+              timestamp: event.timestamp,
+            })}\n\n`
+          );
+        }
+      );
+
+      // Comment lines keep idle connections from being closed by proxies
+      const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15000);
+
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error) {
+      console.error("Error streaming batch events:", error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: "Internal server error",
+        });
+      } else {
+        res.end();
+      }
+    }
+  };
+
+  // Files ranked by score; ?sortBy=average|<target id>|judge, ?field=,
+  // ?pattern= override the batch's scoring, ?format=csv downloads a CSV
+  getLeaderboard = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { batchId } = req.params;
+      const { sortBy, field, pattern, format } = req.query;
+
+      if (typeof pattern === "string" && pattern) {
+        const patternError = checkScorePattern(pattern);
+        if (patternError) {
+          res.status(400).json({
+            success: false,
+            error: patternError,
+          });
+          return;
+        }
+      }
+
+      const leaderboard = this.processor.getLeaderboard(batchId, {
+        sortBy: typeof sortBy === "string" ? sortBy : undefined,
+        field: typeof field === "string" ? field : undefined,
+        pattern: typeof pattern === "string" ? pattern : undefined,
+      });
+
+      if (!leaderboard) {
+        res.status(404).json({
+          success: false,
+          error: "Batch not found",
+        });
+        return;
+      }
+
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="leaderboard-${batchId}.csv"`
+        );
+        res.status(200).send(leaderboardToCsv(leaderboard));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: leaderboard,
+      });
+    } catch (error) {
+      console.error("Error building leaderboard:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Cross-model consensus and disagreement report
+  getComparison = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { batchId } = req.params;
+      const comparison = this.processor.getComparison(
+        batchId,
+        req.query.redacted === "true"
+      );
+
+      if (!comparison) {
+        res.status(404).json({
+          success: false,
+          error: "Batch not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: comparison,
+      });
+    } catch (error) {
+      console.error("Error building comparison:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // What PII was replaced with placeholders in each file
+  getRedactionAudit = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { batchId } = req.params;
+      const audit = this.processor.getRedactionAudit(batchId);
+
+      if (!audit) {
+        res.status(404).json({
+          success: false,
+          error: "Batch not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: audit,
+      });
+    } catch (error) {
+      console.error("Error getting redaction audit:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Webhook delivery log for a batch
+  getWebhookDeliveries = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { batchId } = req.params;
+      const deliveries = this.processor.getWebhookDeliveries(batchId);
+
+      if (!deliveries) {
+        res.status(404).json({
+          success: false,
+          error: "Batch not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { batchId, deliveries },
+      });
+    } catch (error) {
+      console.error("Error getting webhook deliveries:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Per-file status, provider errors, attempts and usage
+  getFileDetails = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { batchId } = req.params;
+      const files = this.processor.getFileDetails(batchId);
+
+      if (!files) {
+        res.status(404).json({
+          success: false,
+          error: "Batch not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { batchId, files },
+      });
+    } catch (error) {
+      console.error("Error getting file details:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Rendered system and user prompt for one file of a batch
+  getPromptPreview = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { batchId, fileId } = req.params;
+      const preview = this.processor.getPromptPreview(batchId, fileId);
+
+      if (!preview) {
+        res.status(404).json({
+          success: false,
+          error: "Batch or file not found",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      console.error("Error rendering prompt preview:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
   // Download all results as ZIP
   downloadResults = async (req: Request, res: Response): Promise<void> => {
     try {
       const { batchId } = req.params;
 
-      const results = this.processor.getMultiModelResults(batchId);
+      // Redacted values are restored unless ?redacted=true
+      const results = this.processor.getMultiModelResults(
+        batchId,
+        req.query.redacted === "true"
+      );
       if (!results) {
         res.status(404).json({
           success: false,
@@ -181,29 +951,73 @@ export class TranscriptController {
 
       archive.pipe(res);
 
-      // Add results from each model (analysis text only, no metadata)
+      // Add results from each model target (analysis only, no metadata);
+      // structured results are written as JSON
       results.files.forEach((file) => {
-        const baseFilename = path.basename(file.filename, ".txt");
+        const baseFilename = path.parse(file.filename).name;
 
-        if (file.openai) {
-          archive.append(file.openai.analysis, {
-            name: `openai/${baseFilename}-openai.txt`,
-          });
-        }
-
-        if (file.claude) {
-          archive.append(file.claude.analysis, {
-            name: `claude/${baseFilename}-claude.txt`,
-          });
+        for (const target of results.models) {
+          const result = file.results[target.id];
+          if (result) {
+            const ext = result.structured !== undefined ? "json" : "txt";
+            archive.append(result.analysis, {
+              name: `${target.id}/${baseFilename}-${target.id}.${ext}`,
+            });
+          }
         }
+      });
 
-        if (file.gemini) {
-          archive.append(file.gemini.analysis, {
-            name: `gemini/${baseFilename}-gemini.txt`,
+      // Judge verdicts get their own folder
+      results.files.forEach((file) => {
+        if (file.judge) {
+          const baseFilename = path.parse(file.filename).name;
+          archive.append(file.judge.analysis, {
+            name: `${JUDGE_TARGET_ID}/${baseFilename}-${JUDGE_TARGET_ID}.txt`,
           });
         }
       });
 
+      // Cross-model comparison report alongside the per-model folders
+      const comparison = this.processor.getComparison(
+        batchId,
+        req.query.redacted === "true"
+      );
+      if (comparison) {
+        archive.append(JSON.stringify(comparison, null, 2), {
+          name: "comparison.json",
+        });
+      }
+
+      const audit = this.processor.getRedactionAudit(batchId);
+      if (audit?.redaction && req.query.redacted !== "true") {
+        archive.append(JSON.stringify(audit, null, 2), {
+          name: "redactions.json",
+        });
+      }
+
+      // Why files or models have no result
+      const failedFiles = (this.processor.getFileDetails(batchId) || [])
+        .filter((file) => file.error || file.errors.length > 0)
+        .map(({ id, filename, status, error, errors }) => ({
+          fileId: id,
+          filename,
+          status,
+          error,
+          errors,
+        }));
+      if (failedFiles.length > 0) {
+        archive.append(JSON.stringify(failedFiles, null, 2), {
+          name: "errors.json",
+        });
+      }
+
+      const leaderboard = this.processor.getLeaderboard(batchId);
+      if (leaderboard) {
+        archive.append(leaderboardToCsv(leaderboard), {
+          name: "leaderboard.csv",
+        });
+      }
+
       archive.finalize();
       console.log(`📥 Generated results zip: ${zipFilename}`);
     } catch (error) {
@@ -226,9 +1040,9 @@ export class TranscriptController {
         totalFiles: batch.metrics.total,
         completed: batch.metrics.completed,
         failed: batch.metrics.failed,
-        openaiComplete: batch.metrics.openaiComplete,
-        claudeComplete: batch.metrics.claudeComplete,
-        geminiComplete: batch.metrics.geminiComplete,
+        models: batch.jobConfig?.models || [],
+        promptRef: batch.jobConfig?.promptRef,
+        modelsComplete: batch.metrics.modelsComplete,
         createdAt: batch.createdAt,
         startedAt: batch.startedAt,
         completedAt: batch.completedAt,
@@ -277,6 +1091,142 @@ export class TranscriptController {
     }
   };
 
+  // Re-run failed results, or the selected files and models, in place.
+  // Body: { files?: [fileId], models?: [targetId or "judge"], cache?: boolean }
+  retryBatch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { batchId } = req.params;
+      const progress = this.processor.getBatchProgress(batchId);
+      if (!progress) {
+        res.status(404).json({
+          success: false,
+          error: "Batch not found",
+        });
+        return;
+      }
+      if (progress.status === "processing") {
+        res.status(409).json({
+          success: false,
+          error: "Batch is still processing",
+        });
+        return;
+      }
+
+      const { files, models, cache } = req.body || {};
+      if (![undefined, true, false, "true", "false"].includes(cache)) {
+        res.status(400).json({
+          success: false,
+          error: "cache must be true or false",
+        });
+        return;
+      }
+
+      const fileIds = progress.files.map((file) => file.id);
+      const targetIds = [
+        ...progress.models.map((target) => target.id),
+        ...(progress.judge ? [JUDGE_TARGET_ID] : []),
+      ];
+      for (const [name, value, known] of [
+        ["files", files, fileIds],
+        ["models", models, targetIds],
+      ] as const) {
+        if (value === undefined) continue;
+        if (
+          !Array.isArray(value) ||
+          value.length === 0 ||
+          value.some((id) => typeof id !== "string")
+        ) {
+          res.status(400).json({
+            success: false,
+            error: `${name} must be a non-empty list of ids`,
+          });
+          return;
+        }
+        const unknown = value.filter((id: string) => !known.includes(id));
+        if (unknown.length > 0) {
+          res.status(400).json({
+            success: false,
+            error: `Unknown ${name}: ${unknown.join(", ")}`,
+          });
+          return;
+        }
+      }
+
+      const retried = this.processor.retryBatch(batchId, {
+        fileIds: files,
+        targetIds: models,
+        cache:
+          cache === undefined ? undefined : cache === true || cache === "true",
+      });
+      if (!retried) {
+        res.status(409).json({
+          success: false,
+          error: "Batch is still processing",
+        });
+        return;
+      }
+      if (retried.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: "Nothing to retry",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { batchId, status: "processing", files: retried },
+      });
+    } catch (error) {
+      console.error("Error retrying batch:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
+  // Resume a batch paused by its budget; a budget in the body replaces the
+  // old caps (one without caps removes them)
+  resumeBatch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { batchId } = req.params;
+      let budget: BudgetConfig | null | undefined;
+      if (req.body?.budget !== undefined) {
+        const parsed = this.parseBudget(req.body.budget);
+        if (parsed.error) {
+          res.status(400).json({
+            success: false,
+            error: parsed.error,
+          });
+          return;
+        }
+        budget = parsed.budget ?? null;
+      }
+
+      const success = this.processor.resumeBatch(batchId, budget);
+      if (!success) {
+        res.status(400).json({
+          success: false,
+          error:
+            "Cannot resume batch (not found, not paused or still stopping)",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { batchId, status: "processing" },
+      });
+    } catch (error) {
+      console.error("Error resuming batch:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
   // Delete batch
   deleteBatch = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -304,6 +1254,28 @@ export class TranscriptController {
     }
   };
 
+  // Registered providers and their default models
+  getProviders = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const providers = this.processor.getProviders().map((provider) => ({
+        name: provider.name,
+        displayName: provider.displayName,
+        defaultModel: provider.defaultModel,
+      }));
+
+      res.status(200).json({
+        success: true,
+        data: { providers },
+      });
+    } catch (error) {
+      console.error("Error getting providers:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  };
+
   // System health
   getSystemHealth = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -335,6 +1307,7 @@ export class TranscriptController {
             0
           ),
         },
+        rateLimits: this.processor.getRateLimitState(),
       };
 
       res.status(200).json({
@@ -36,7 +36,11 @@ app.use(express.json({ limit: "50mb" }));
 app.use(express.urlencoded({ extended: true, limit: "50mb" }));
 
 // Create required directories
-const requiredDirs = [serverConfig.uploadDir, serverConfig.outputDir];
+const requiredDirs = [
+  serverConfig.uploadDir,
+  serverConfig.outputDir,
+  serverConfig.dataDir,
+];
 
 requiredDirs.forEach((dir) => {
   if (!fs.existsSync(dir)) {
@@ -47,6 +51,9 @@ requiredDirs.forEach((dir) => {
 
 // Log storage configuration
 console.log(`💾 Storage config: ${serverConfig.outputDir}`);
+console.log(
+  `💾 Batch store: ${serverConfig.batchStore} (${serverConfig.dataDir})`
+);
 
 // Serve static files (the UI)
 app.use(express.static("public"));
@@ -99,14 +106,6 @@ app.use(
       });
     }
 
-    if (err.message === "Only TXT files are allowed") {
-      return res.status(400).json({
-        success: false,
-        error: "Only TXT files are allowed",
-        timestamp: new Date().toISOString(),
-      });
-    }
-
     return res.status(500).json({
       success: false,
       error: "Internal server error",
@@ -117,29 +116,10 @@ app.use(
 );
 
 // Graceful shutdown handling
+// Uploads are kept on disk: persisted batches are resumed on the next start
+// and their files are removed when the batch itself is deleted
 const gracefulShutdown = () => {
-  console.log("\n📴 Received shutdown signal, cleaning up...");
-
-  try {
-    // Clean up temporary files
-    if (fs.existsSync(serverConfig.uploadDir)) {
-      const files = fs.readdirSync(serverConfig.uploadDir);
-      files.forEach((file) => {
-        try {
-          const filePath = path.join(serverConfig.uploadDir, file);
-          if (fs.statSync(filePath).isFile()) {
-            fs.unlinkSync(filePath);
-          }
-        } catch (error) {
-          console.warn(`⚠️ Could not cleanup ${file}:`, error);
-        }
-      });
-      console.log("🧹 Cleaned up temporary files");
-    }
-  } catch (error) {
-    console.warn("⚠️ Error during cleanup:", error);
-  }
-
+  console.log("\n📴 Received shutdown signal, shutting down...");
   process.exit(0);
 };
 
@@ -160,9 +140,11 @@ const server = app.listen(serverConfig.port, () => {
     "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n"
   );
   console.log("📋 WORKFLOW:");
-  console.log("   1. Upload Transcript Files (.txt)");
+  console.log(
+    "   1. Upload Transcript Files (.txt, .vtt, .srt, .docx, .pdf, .json)"
+  );
   console.log("   2. Provide Job Description & Analysis Prompt");
-  console.log("   3. Specify AI Model Names (OpenAI, Claude, Gemini)");
+  console.log("   3. Choose AI Providers & Models");
   console.log("   4. Start Multi-Model Processing");
   console.log("   5. Download Results as ZIP");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
@@ -3,6 +3,11 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { serverConfig, config } from "../config";
+import { FileError } from "../types";
+import {
+  UNSUPPORTED_FORMAT_ERROR,
+  detectFormat,
+} from "../services/TranscriptParser";
 
 // Ensure upload directory exists
 if (!fs.existsSync(serverConfig.uploadDir)) {
@@ -24,14 +29,18 @@ const fileFilter = (
   file: Express.Multer.File,
   cb: multer.FileFilterCallback
 ) => {
-  if (
-    file.mimetype === "text/plain" ||
-    file.originalname.toLowerCase().endsWith(".txt")
-  ) {
+  if (detectFormat(file.originalname, file.mimetype)) {
     cb(null, true);
-  } else {
-    cb(new Error("Only TXT files are allowed"));
+    return;
   }
+
+  // Skipped instead of failing the upload; the controller reports it
+  const rejected: FileError = {
+    filename: file.originalname,
+    error: UNSUPPORTED_FORMAT_ERROR,
+  };
+  req.rejectedFiles = [...(req.rejectedFiles || []), rejected];
+  cb(null, false);
 };
 
 export const uploadMiddleware = multer({
@@ -0,0 +1,77 @@
+// src/providers/ClaudeProvider.ts
+import Anthropic from "@anthropic-ai/sdk";
+import { apiConfig, config } from "../config";
+import { TranscriptAnalysis } from "../types";
+import { AnalysisRequest, ModelProvider } from "./ModelProvider";
+
+// Structured output is obtained by forcing a call to this tool, whose input
+// schema is the user's JSON Schema
+const ANALYSIS_TOOL = "record_analysis";
+
+export class ClaudeProvider implements ModelProvider {
+  readonly name = "claude";
+  readonly displayName = "Claude";
+  readonly defaultModel = apiConfig.anthropic.defaultModel;
+  readonly concurrency = config.concurrent.providers.claude;
+  readonly rateLimit = apiConfig.anthropic.rateLimit;
+  readonly contextWindow = apiConfig.anthropic.contextWindow;
+  readonly maxOutputTokens = apiConfig.anthropic.maxTokens;
+  private client: Anthropic;
+
+  constructor() {
+    // SDK-level retries are disabled; RetryPolicy owns retries and timeouts
+    this.client = new Anthropic({
+      apiKey: apiConfig.anthropic.apiKey,
+      maxRetries: 0,
+    });
+  }
+
+  async analyze(request: AnalysisRequest): Promise<TranscriptAnalysis> {
+    const { system, user, model, filename, schema, signal } = request;
+    const startTime = Date.now();
+
+    const message = await this.client.messages.create(
+      {
+        model: model,
+        max_tokens: apiConfig.anthropic.maxTokens,
+        system: system,
+        messages: [{ role: "user", content: user }],
+        ...(schema && {
+          tools: [
+            {
+              name: ANALYSIS_TOOL,
+              description: "Record the structured transcript analysis",
+              input_schema: schema as Anthropic.Tool.InputSchema,
+            },
+          ],
+          tool_choice: { type: "tool" as const, name: ANALYSIS_TOOL },
+        }),
+      },
+      { signal }
+    );
+
+    const toolUse = message.content.find((block) => block.type === "tool_use");
+    const analysis =
+      toolUse?.type === "tool_use"
+        ? JSON.stringify(toolUse.input, null, 2)
+        : message.content[0]?.type === "text"
+          ? message.content[0].text
+          : "No analysis generated";
+    const processingTime = Date.now() - startTime;
+
+    return {
+      model: model,
+      filename: filename,
+      analysis: analysis,
+      metadata: {
+        tokens: message.usage?.input_tokens
+          ? message.usage.input_tokens + (message.usage?.output_tokens || 0)
+          : undefined,
+        inputTokens: message.usage?.input_tokens,
+        outputTokens: message.usage?.output_tokens,
+        processingTime: processingTime,
+      },
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,58 @@
+// src/providers/GeminiProvider.ts
+import { GoogleGenerativeAI, ResponseSchema } from "@google/generative-ai";
+import { apiConfig, config } from "../config";
+import { toGeminiSchema } from "../services/StructuredOutput";
+import { TranscriptAnalysis } from "../types";
+import { AnalysisRequest, ModelProvider } from "./ModelProvider";
+
+export class GeminiProvider implements ModelProvider {
+  readonly name = "gemini";
+  readonly displayName = "Gemini";
+  readonly defaultModel = apiConfig.gemini.defaultModel;
+  readonly concurrency = config.concurrent.providers.gemini;
+  readonly rateLimit = apiConfig.gemini.rateLimit;
+  readonly contextWindow = apiConfig.gemini.contextWindow;
+  readonly maxOutputTokens = apiConfig.gemini.maxTokens;
+  private client: GoogleGenerativeAI;
+
+  constructor() {
+    this.client = new GoogleGenerativeAI(apiConfig.gemini.apiKey);
+  }
+
+  async analyze(request: AnalysisRequest): Promise<TranscriptAnalysis> {
+    const { system, user, model, filename, schema, signal } = request;
+    const startTime = Date.now();
+
+    const genModel = this.client.getGenerativeModel({
+      model: model,
+      systemInstruction: system,
+      generationConfig: schema
+        ? {
+            responseMimeType: "application/json",
+            // Same shape; the SDK types each schema type separately
+            responseSchema: toGeminiSchema(schema) as ResponseSchema,
+          }
+        : undefined,
+    });
+
+    const result = await genModel.generateContent(user, { signal });
+
+    const response = await result.response;
+    const analysis = response.text();
+    const usage = response.usageMetadata;
+    const processingTime = Date.now() - startTime;
+
+    return {
+      model: model,
+      filename: filename,
+      analysis: analysis,
+      metadata: {
+        tokens: usage?.totalTokenCount,
+        inputTokens: usage?.promptTokenCount,
+        outputTokens: usage?.candidatesTokenCount,
+        processingTime: processingTime,
+      },
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,77 @@
+// src/providers/LocalProvider.ts - Self-hosted OpenAI-compatible endpoint
+import { OpenAI } from "openai";
+import { apiConfig, config } from "../config";
+import { TranscriptAnalysis } from "../types";
+import { AnalysisRequest, ModelProvider } from "./ModelProvider";
+
+// Transcripts sent here never leave the network the endpoint runs in, which
+// makes it the provider to use for confidential interviews
+export class LocalProvider implements ModelProvider {
+  readonly name = "local";
+  readonly displayName = "Local";
+  readonly defaultModel = apiConfig.local.defaultModel;
+  readonly concurrency = config.concurrent.providers.local;
+  readonly rateLimit = apiConfig.local.rateLimit;
+  readonly contextWindow = apiConfig.local.contextWindow;
+  readonly maxOutputTokens = apiConfig.local.maxTokens;
+  private client: OpenAI;
+
+  constructor() {
+    const { baseUrl, apiKey, authHeader } = apiConfig.local;
+    const usesBearer = authHeader.toLowerCase() === "authorization";
+
+    // The SDK always wants a key; local servers usually ignore it. A custom
+    // auth header replaces the default "Authorization: Bearer" one.
+    this.client = new OpenAI({
+      baseURL: baseUrl,
+      apiKey: apiKey || "not-needed",
+      maxRetries: 0,
+      defaultHeaders:
+        usesBearer || !apiKey
+          ? undefined
+          : { Authorization: null, [authHeader]: apiKey },
+    });
+  }
+
+  async analyze(request: AnalysisRequest): Promise<TranscriptAnalysis> {
+    const { system, user, model, filename, schema, signal } = request;
+    const startTime = Date.now();
+
+    const completion = await this.client.chat.completions.create(
+      {
+        model: model,
+        max_tokens: apiConfig.local.maxTokens,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: user },
+        ],
+        // vLLM and llama.cpp server honour json_schema; others fall back to
+        // free text, which is then repaired or retried by the processor
+        ...(schema && {
+          response_format: {
+            type: "json_schema" as const,
+            json_schema: { name: "transcript_analysis", schema, strict: false },
+          },
+        }),
+      },
+      { signal }
+    );
+
+    const analysis =
+      completion.choices[0]?.message?.content || "No analysis generated";
+    const processingTime = Date.now() - startTime;
+
+    return {
+      model: model,
+      filename: filename,
+      analysis: analysis,
+      metadata: {
+        tokens: completion.usage?.total_tokens,
+        inputTokens: completion.usage?.prompt_tokens,
+        outputTokens: completion.usage?.completion_tokens,
+        processingTime: processingTime,
+      },
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,101 @@
+// src/providers/MockProvider.ts - Deterministic offline provider
+import crypto from "crypto";
+import { apiConfig, config } from "../config";
+import { sleep } from "../services/RetryPolicy";
+import { estimateTokens } from "../services/RateLimiter";
+import { sampleFromSchema } from "../services/StructuredOutput";
+import { TranscriptAnalysis } from "../types";
+import { AnalysisRequest, ModelProvider } from "./ModelProvider";
+
+export interface MockProviderOptions {
+  name?: string; // Impersonate a real provider (e.g. "openai") when set
+  displayName?: string;
+  defaultModel?: string;
+  contextWindow?: number; // Mirror the impersonated provider so chunking matches
+}
+
+export class MockProviderError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "MockProviderError";
+    this.status = status;
+  }
+}
+
+// Returns templated analyses after a configurable latency and fails a
+// configurable share of calls. Outcomes depend only on the filename, model
+// and how many times that pair was called, so runs are reproducible
+// regardless of concurrency.
+export class MockProvider implements ModelProvider {
+  readonly name: string;
+  readonly displayName: string;
+  readonly defaultModel: string;
+  readonly concurrency = config.concurrent.providers.mock;
+  readonly rateLimit = apiConfig.mock.rateLimit;
+  readonly contextWindow: number;
+  readonly maxOutputTokens = 1000;
+  private calls: Map<string, number> = new Map();
+
+  constructor(options: MockProviderOptions = {}) {
+    this.name = options.name || "mock";
+    this.displayName = options.displayName || "Mock";
+    this.defaultModel = options.defaultModel || apiConfig.mock.defaultModel;
+    this.contextWindow = options.contextWindow || apiConfig.mock.contextWindow;
+  }
+
+  async analyze(request: AnalysisRequest): Promise<TranscriptAnalysis> {
+    const { system, user, model, filename, schema, signal } = request;
+    const { latencyMs, failureRate, failureStatus, template } = apiConfig.mock;
+    const startTime = Date.now();
+
+    const key = `${filename}\u0000${model}`;
+    const call = (this.calls.get(key) || 0) + 1;
+    this.calls.set(key, call);
+
+    await sleep(latencyMs, signal);
+    if (signal?.aborted) {
+      throw signal.reason instanceof Error
+        ? signal.reason
+        : new Error("Mock call aborted");
+    }
+
+    if (this.random(`${key}\u0000${call}`) < failureRate) {
+      throw new MockProviderError(
+        failureStatus,
+        `Simulated ${this.displayName} failure (status ${failureStatus})`
+      );
+    }
+
+    const score = 1 + Math.floor(this.random(key) * 10);
+    const analysis = schema
+      ? JSON.stringify(sampleFromSchema(schema), null, 2)
+      : template
+          .replace(/\{\{model\}\}/g, model)
+          .replace(/\{\{filename\}\}/g, filename)
+          .replace(/\{\{length\}\}/g, String(user.length))
+          .replace(/\{\{score\}\}/g, String(score));
+
+    const inputTokens = estimateTokens(system + user);
+    const outputTokens = estimateTokens(analysis);
+    return {
+      model: model,
+      filename: filename,
+      analysis: analysis,
+      metadata: {
+        tokens: inputTokens + outputTokens,
+        inputTokens,
+        outputTokens,
+        processingTime: Date.now() - startTime,
+      },
+      timestamp: new Date(),
+    };
+  }
+
+  // Stable pseudo-random number in [0, 1) derived from the seed string
+  private random(seed: string): number {
+    const hash = crypto.createHash("sha256").update(seed).digest();
+    return hash.readUInt32BE(0) / 0x100000000;
+  }
+}
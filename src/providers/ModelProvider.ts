@@ -0,0 +1,24 @@
+// src/providers/ModelProvider.ts - Contract every AI provider adapter implements
+import { RateLimit } from "../config";
+import { TranscriptAnalysis } from "../types";
+
+export interface AnalysisRequest {
+  system: string; // Rendered system template
+  user: string; // Rendered user template (contains the transcript)
+  model: string;
+  filename: string;
+  schema?: Record<string, unknown>; // JSON Schema the response must follow (structured output)
+  signal?: AbortSignal;
+}
+
+export interface ModelProvider {
+  readonly name: string; // Registry key referenced by ModelTarget.provider
+  readonly displayName: string;
+  readonly defaultModel: string;
+  readonly concurrency: number; // Calls in flight across all batches
+  readonly rateLimit: RateLimit;
+  readonly contextWindow: number; // Input plus output tokens the models accept
+  readonly maxOutputTokens: number; // Reserved for the response
+
+  analyze(request: AnalysisRequest): Promise<TranscriptAnalysis>;
+}
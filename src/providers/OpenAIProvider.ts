@@ -0,0 +1,81 @@
+// src/providers/OpenAIProvider.ts
+import { OpenAI } from "openai";
+import { apiConfig, config } from "../config";
+import { TranscriptAnalysis } from "../types";
+import { AnalysisRequest, ModelProvider } from "./ModelProvider";
+
+export class OpenAIProvider implements ModelProvider {
+  readonly name = "openai";
+  readonly displayName = "OpenAI";
+  readonly defaultModel = apiConfig.openai.defaultModel;
+  readonly concurrency = config.concurrent.providers.openai;
+  readonly rateLimit = apiConfig.openai.rateLimit;
+  readonly contextWindow = apiConfig.openai.contextWindow;
+  readonly maxOutputTokens = apiConfig.openai.maxTokens;
+  private client: OpenAI;
+
+  constructor() {
+    // SDK-level retries are disabled; RetryPolicy owns retries and timeouts
+    this.client = new OpenAI({
+      apiKey: apiConfig.openai.apiKey,
+      maxRetries: 0,
+    });
+  }
+
+  async analyze(request: AnalysisRequest): Promise<TranscriptAnalysis> {
+    const { system, user, model, filename, schema, signal } = request;
+    const startTime = Date.now();
+
+    // Use max_completion_tokens for newer models (GPT-4o and later)
+    // Use max_tokens for older models
+    const isNewerModel =
+      model.includes("gpt-4o") ||
+      model.includes("gpt-5") ||
+      model.includes("o1") ||
+      model.includes("o3");
+
+    const completionParams: any = {
+      model: model,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+    };
+
+    // Add the appropriate token limit parameter based on model
+    if (isNewerModel) {
+      completionParams.max_completion_tokens = apiConfig.openai.maxTokens;
+    } else {
+      completionParams.max_tokens = apiConfig.openai.maxTokens;
+    }
+
+    if (schema) {
+      completionParams.response_format = {
+        type: "json_schema",
+        json_schema: { name: "transcript_analysis", schema, strict: false },
+      };
+    }
+
+    const completion = await this.client.chat.completions.create(
+      completionParams,
+      { signal }
+    );
+
+    const analysis =
+      completion.choices[0]?.message?.content || "No analysis generated";
+    const processingTime = Date.now() - startTime;
+
+    return {
+      model: model,
+      filename: filename,
+      analysis: analysis,
+      metadata: {
+        tokens: completion.usage?.total_tokens,
+        inputTokens: completion.usage?.prompt_tokens,
+        outputTokens: completion.usage?.completion_tokens,
+        processingTime: processingTime,
+      },
+      timestamp: new Date(),
+    };
+  }
+}
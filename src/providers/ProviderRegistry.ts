@@ -0,0 +1,29 @@
+// src/providers/ProviderRegistry.ts - Lookup of provider adapters by name
+import { ModelProvider } from "./ModelProvider";
+
+export class ProviderRegistry {
+  private providers: Map<string, ModelProvider> = new Map();
+
+  register(provider: ModelProvider): void {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`Provider ${provider.name} is already registered`);
+    }
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: string): ModelProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown provider: ${name}`);
+    }
+    return provider;
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  list(): ModelProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
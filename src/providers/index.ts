@@ -0,0 +1,99 @@
+// src/providers/index.ts - Default provider registry
+import { apiConfig } from "../config";
+import { ModelTarget } from "../types";
+import { ClaudeProvider } from "./ClaudeProvider";
+import { GeminiProvider } from "./GeminiProvider";
+import { LocalProvider } from "./LocalProvider";
+import { MockProvider } from "./MockProvider";
+import { OpenAIProvider } from "./OpenAIProvider";
+import { ProviderRegistry } from "./ProviderRegistry";
+
+export { AnalysisRequest, ModelProvider } from "./ModelProvider";
+export { ProviderRegistry } from "./ProviderRegistry";
+
+// Providers in mock mode are replaced by a MockProvider under the same name,
+// so batches and the UI keep working without API keys or network access.
+// The standalone "mock" provider is always available, e.g. for per-batch
+// mock runs.
+export function createDefaultRegistry(): ProviderRegistry {
+  const { openai, anthropic, gemini } = apiConfig;
+  const registry = new ProviderRegistry();
+
+  registry.register(
+    openai.mode === "mock"
+      ? mockFor("openai", "OpenAI", openai)
+      : new OpenAIProvider()
+  );
+  registry.register(
+    anthropic.mode === "mock"
+      ? mockFor("claude", "Claude", anthropic)
+      : new ClaudeProvider()
+  );
+  registry.register(
+    gemini.mode === "mock"
+      ? mockFor("gemini", "Gemini", gemini)
+      : new GeminiProvider()
+  );
+  if (apiConfig.local.baseUrl) {
+    registry.register(new LocalProvider());
+  }
+  registry.register(new MockProvider());
+
+  return registry;
+}
+
+function mockFor(
+  name: string,
+  displayName: string,
+  settings: { defaultModel: string; contextWindow: number }
+): MockProvider {
+  return new MockProvider({
+    name,
+    displayName: `${displayName} (mock)`,
+    defaultModel: settings.defaultModel,
+    contextWindow: settings.contextWindow,
+  });
+}
+
+export interface ModelTargetSpec {
+  provider: string;
+  model: string;
+  id?: string;
+}
+
+// Target ids name result folders in the ZIP, so only letters, digits, dots,
+// dashes and underscores are kept
+export function targetSlug(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-");
+}
+
+// Give every target a unique id: the provider name when it is used once,
+// otherwise provider plus a slug of the model (e.g. "openai-gpt-4o")
+export function assignTargetIds(specs: ModelTargetSpec[]): ModelTarget[] {
+  const providerCounts = new Map<string, number>();
+  for (const spec of specs) {
+    providerCounts.set(
+      spec.provider,
+      (providerCounts.get(spec.provider) || 0) + 1
+    );
+  }
+
+  const used = new Set<string>();
+  return specs.map((spec) => {
+    const base =
+      spec.id ||
+      (providerCounts.get(spec.provider) === 1
+        ? spec.provider
+        : `${spec.provider}-${spec.model}`);
+    const slug = targetSlug(base);
+
+    let id = slug;
+    for (let n = 2; used.has(id); n++) id = `${slug}-${n}`;
+    used.add(id);
+
+    return { id, provider: spec.provider, model: spec.model };
+  });
+}
@@ -1,11 +1,22 @@
 // src/routes/index.ts - Transcript processing routes
 import express from "express";
 import { TranscriptController } from "../controllers/TranscriptController";
+import { PromptController } from "../controllers/PromptController";
+import { CacheController } from "../controllers/CacheController";
+import { PromptLibrary } from "../services/PromptLibrary";
+import { ResponseCache } from "../services/ResponseCache";
 import { uploadMiddleware } from "../middleware/uploadMiddleware";
 import { param, body, validationResult } from "express-validator";
 
 const router = express.Router();
-const transcriptController = new TranscriptController();
+const promptLibrary = new PromptLibrary();
+const responseCache = new ResponseCache();
+const transcriptController = new TranscriptController(
+  promptLibrary,
+  responseCache
+);
+const promptController = new PromptController(promptLibrary);
+const cacheController = new CacheController(responseCache);
 
 // Validation middleware
 const handleValidationErrors = (
@@ -33,6 +44,28 @@ const validateBatchId = [
   handleValidationErrors,
 ];
 
+const validateFileId = [
+  param("batchId").isUUID().withMessage("Invalid batch ID format"),
+  param("fileId").isUUID().withMessage("Invalid file ID format"),
+  handleValidationErrors,
+];
+
+const validatePromptId = [
+  param("promptId").isUUID().withMessage("Invalid prompt ID format"),
+  handleValidationErrors,
+];
+
+const validateCacheKey = [
+  param("key").isHash("sha256").withMessage("Invalid cache key format"),
+  handleValidationErrors,
+];
+
+const validatePromptVersion = [
+  param("promptId").isUUID().withMessage("Invalid prompt ID format"),
+  param("version").isInt({ min: 1 }).withMessage("Invalid prompt version"),
+  handleValidationErrors,
+];
+
 // Upload and process transcripts with multi-model analysis
 router.post(
   "/process",
@@ -40,6 +73,13 @@ router.post(
   transcriptController.processTranscripts
 );
 
+// Estimate tokens and cost for a batch without starting it
+router.post(
+  "/estimate",
+  uploadMiddleware.array("transcripts", 100),
+  transcriptController.estimateCost
+);
+
 // Get batch progress
 router.get(
   "/batch/:batchId/progress",
@@ -47,6 +87,55 @@ router.get(
   transcriptController.getBatchProgress
 );
 
+// Stream batch progress events (SSE)
+router.get(
+  "/batch/:batchId/events",
+  validateBatchId,
+  transcriptController.streamBatchEvents
+);
+
+// Ranked shortlist (JSON or ?format=csv)
+router.get(
+  "/batch/:batchId/leaderboard",
+  validateBatchId,
+  transcriptController.getLeaderboard
+);
+
+// Cross-model consensus and disagreement report
+router.get(
+  "/batch/:batchId/comparison",
+  validateBatchId,
+  transcriptController.getComparison
+);
+
+// What PII was redacted per file
+router.get(
+  "/batch/:batchId/redactions",
+  validateBatchId,
+  transcriptController.getRedactionAudit
+);
+
+// Webhook delivery log
+router.get(
+  "/batch/:batchId/webhooks",
+  validateBatchId,
+  transcriptController.getWebhookDeliveries
+);
+
+// Per-file status and provider errors
+router.get(
+  "/batch/:batchId/files",
+  validateBatchId,
+  transcriptController.getFileDetails
+);
+
+// Preview the rendered prompt for one file
+router.get(
+  "/batch/:batchId/files/:fileId/prompt",
+  validateFileId,
+  transcriptController.getPromptPreview
+);
+
 // Download results
 router.get(
   "/batch/:batchId/download",
@@ -61,6 +150,20 @@ router.post(
   transcriptController.cancelBatch
 );
 
+// Re-run failed (or selected) results of a batch
+router.post(
+  "/batch/:batchId/retry",
+  validateBatchId,
+  transcriptController.retryBatch
+);
+
+// Resume a batch paused by its budget
+router.post(
+  "/batch/:batchId/resume",
+  validateBatchId,
+  transcriptController.resumeBatch
+);
+
 // Delete batch
 router.delete(
   "/batch/:batchId",
@@ -71,6 +174,46 @@ router.delete(
 // Get all batches
 router.get("/batches", transcriptController.getAllBatches);
 
+// Registered AI providers
+router.get("/providers", transcriptController.getProviders);
+
+// Saved prompt library
+router.get("/prompts", promptController.listPrompts);
+router.post("/prompts", promptController.createPrompt);
+router.get("/prompts/:promptId", validatePromptId, promptController.getPrompt);
+router.put(
+  "/prompts/:promptId",
+  validatePromptId,
+  promptController.updatePrompt
+);
+router.delete(
+  "/prompts/:promptId",
+  validatePromptId,
+  promptController.deletePrompt
+);
+
+// Prompt versions are immutable; edits append a new one
+router.post(
+  "/prompts/:promptId/versions",
+  validatePromptId,
+  promptController.addPromptVersion
+);
+router.get(
+  "/prompts/:promptId/versions/:version",
+  validatePromptVersion,
+  promptController.getPromptVersion
+);
+
+// Response cache administration
+router.get("/cache", cacheController.listCache);
+router.delete("/cache", cacheController.purgeCache);
+router.get("/cache/:key", validateCacheKey, cacheController.getCacheEntry);
+router.delete(
+  "/cache/:key",
+  validateCacheKey,
+  cacheController.deleteCacheEntry
+);
+
 // System health
 router.get("/health", transcriptController.getSystemHealth);
 
@@ -0,0 +1,84 @@
+// src/services/BatchEvents.ts - Per-batch event log behind the SSE progress stream
+import { EventEmitter } from "events";
+import { BatchEvent, BatchEventType } from "../types";
+
+// Enough history for a reconnecting client to catch up on a large batch
+const MAX_EVENTS_PER_BATCH = 2000;
+
+export type BatchEventListener = (event: BatchEvent) => void;
+
+export class BatchEventLog {
+  private events: Map<string, BatchEvent[]> = new Map();
+  private sequences: Map<string, number> = new Map();
+  private runStarts: Map<string, number> = new Map(); // Last id before the run
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open dashboard stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(
+    batchId: string,
+    type: BatchEventType,
+    data: Record<string, unknown>
+  ): BatchEvent {
+    const id = (this.sequences.get(batchId) || 0) + 1;
+    this.sequences.set(batchId, id);
+
+    const event: BatchEvent = {
+      id,
+      type,
+      batchId,
+      timestamp: new Date(),
+      data,
+    };
+    const log = this.events.get(batchId) || [];
+    log.push(event);
+    if (log.length > MAX_EVENTS_PER_BATCH) log.shift();
+    this.events.set(batchId, log);
+
+    this.emitter.emit(batchId, event);
+    return event;
+  }
+
+  // A retry or resume processes the batch again; new subscribers only see
+  // the events of the latest run
+  startRun(batchId: string): void {
+    this.runStarts.set(batchId, this.sequences.get(batchId) || 0);
+  }
+
+  // Replays events after lastEventId (without one, the current run's), then
+  // delivers new ones until the returned function is called. Ids restart
+  // after a server restart, so an id ahead of the log replays everything
+  // that is still held.
+  subscribe(
+    batchId: string,
+    lastEventId: number | undefined,
+    listener: BatchEventListener
+  ): () => void {
+    const log = this.events.get(batchId) || [];
+    const latest = this.sequences.get(batchId) || 0;
+    const after =
+      lastEventId === undefined
+        ? this.runStarts.get(batchId) || 0
+        : lastEventId > latest
+          ? 0
+          : lastEventId;
+
+    for (const event of log) {
+      if (event.id > after) listener(event);
+    }
+
+    this.emitter.on(batchId, listener);
+    return () => {
+      this.emitter.off(batchId, listener);
+    };
+  }
+
+  clear(batchId: string): void {
+    this.events.delete(batchId);
+    this.sequences.delete(batchId);
+    this.runStarts.delete(batchId);
+  }
+}
@@ -0,0 +1,17 @@
+// src/services/BatchStore.ts - Persistence for batch jobs
+import path from "path";
+import { serverConfig } from "../config";
+import { BatchJob } from "../types";
+import { DocumentStore, createDocumentStore } from "./DocumentStore";
+
+export type BatchStore = DocumentStore<BatchJob>;
+
+// Batches are stored as one JSON document each under <dataDir>/batches
+export function createBatchStore(
+  driver: string = serverConfig.batchStore
+): BatchStore {
+  return createDocumentStore<BatchJob>(
+    driver,
+    path.join(serverConfig.dataDir, "batches")
+  );
+}
@@ -0,0 +1,117 @@
+// src/services/Chunker.ts - Token-aware splitting of long transcripts
+import { config } from "../config";
+import { ModelProvider } from "../providers/ModelProvider";
+import { estimateTokens } from "./RateLimiter";
+
+// Token counts are estimated, so a share of the window is left unused
+const SAFETY_FACTOR = 0.85;
+const MIN_CHUNK_TOKENS = 256;
+
+// Transcript tokens that fit in one call to the provider alongside the
+// rest of the prompt (promptTokens) and the reserved response tokens
+export function transcriptBudget(
+  provider: ModelProvider,
+  promptTokens: number
+): number {
+  const available =
+    (provider.contextWindow - provider.maxOutputTokens - promptTokens) *
+    SAFETY_FACTOR;
+  const budget =
+    config.chunking.maxTokens > 0
+      ? Math.min(available, config.chunking.maxTokens)
+      : available;
+  return Math.max(MIN_CHUNK_TOKENS, Math.floor(budget));
+}
+
+// Whether a whole prompt fits in one call, with the same safety margin
+export function fitsContext(
+  provider: ModelProvider,
+  promptTokens: number
+): boolean {
+  return (
+    promptTokens <=
+    (provider.contextWindow - provider.maxOutputTokens) * SAFETY_FACTOR
+  );
+}
+
+// Lines (speaker turns) are kept whole where possible; a line longer than a
+// whole chunk is split at sentence ends, and as a last resort by length
+function splitPieces(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * 4;
+  const pieces: string[] = [];
+
+  for (const line of text.split(/(?<=\n)/)) {
+    if (estimateTokens(line) <= maxTokens) {
+      pieces.push(line);
+      continue;
+    }
+    for (const sentence of line.split(/(?<=[.!?])\s+/)) {
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        pieces.push(sentence.slice(i, i + maxChars) + " ");
+      }
+    }
+  }
+
+  return pieces;
+}
+
+// Split text into chunks of at most maxTokens (estimated). Each chunk after
+// the first starts with up to overlapTokens from the end of the previous one.
+export function chunkText(
+  text: string,
+  maxTokens: number,
+  overlapTokens: number = config.chunking.overlapTokens
+): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  const overlap = Math.min(overlapTokens, Math.floor(maxTokens / 4));
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const piece of splitPieces(text, maxTokens)) {
+    const tokens = estimateTokens(piece);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      chunks.push(current.join(""));
+
+      // Carry the last pieces of this chunk over, within the overlap budget
+      const carried: string[] = [];
+      let carriedTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const pieceTokens = estimateTokens(current[i]);
+        if (carriedTokens + pieceTokens > overlap) break;
+        carried.unshift(current[i]);
+        carriedTokens += pieceTokens;
+      }
+      current = carried;
+      currentTokens = carriedTokens;
+    }
+    current.push(piece);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) chunks.push(current.join(""));
+  return chunks;
+}
+
+// Group texts so each group's combined size stays within maxTokens; a text
+// larger than maxTokens gets a group of its own
+export function groupByBudget(texts: string[], maxTokens: number): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const text of texts) {
+    const tokens = estimateTokens(text);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(text);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
@@ -0,0 +1,305 @@
+// src/services/ConsensusReport.ts - Cross-model consensus and disagreement per transcript
+import { config } from "../config";
+import {
+  AnalysisSignals,
+  BatchComparison,
+  BatchJob,
+  Disagreement,
+  FileComparison,
+  Recommendation,
+  TranscriptAnalysis,
+  TranscriptFile,
+} from "../types";
+
+const RECOMMENDATION_LABELS: Record<Recommendation, string> = {
+  strong_hire: "strong hire",
+  hire: "hire",
+  maybe: "maybe",
+  no_hire: "no hire",
+};
+
+// Order matters: negative and qualified phrasings are checked before "hire"
+const RECOMMENDATION_PATTERNS: [RegExp, Recommendation][] = [
+  [
+    /\b(no[\s-]?hire|do not (hire|advance|proceed)|not recommend|reject|decline)/i,
+    "no_hire",
+  ],
+  [/\b(strong(ly)?[\s-]?(hire|recommend|yes))/i, "strong_hire"],
+  [
+    /\b(maybe|borderline|lean|undecided|mixed|on the fence|further interview)/i,
+    "maybe",
+  ],
+  [/\b(hire|advance|recommend|proceed|yes)\b/i, "hire"],
+];
+
+// "Recommendation: Hire" / "**Final recommendation** - No hire"
+const RECOMMENDATION_LINE = /recommendation\**\s*[:\-–]\s*\**\s*([^\n]+)/i;
+
+// "Score: 7/10", "Overall rating: 4 out of 5"
+const SCORE_LINE =
+  /(?:score|rating)[^\d\n]{0,20}(\d+(?:\.\d+)?)\s*(?:\/|out of)\s*(\d+)/i;
+
+export function classifyRecommendation(
+  text: string
+): Recommendation | undefined {
+  for (const [pattern, recommendation] of RECOMMENDATION_PATTERNS) {
+    if (pattern.test(text)) return recommendation;
+  }
+  return undefined;
+}
+
+function isHireDirection(recommendation: Recommendation): boolean {
+  return recommendation === "hire" || recommendation === "strong_hire";
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Scores are compared on a 0-10 scale. Without an explicit scale, values
+// that only fit 0-100 are treated as percentages.
+export function normalizeScore(
+  value: number,
+  scale?: number
+): number | undefined {
+  if (!Number.isFinite(value) || value < 0) return undefined;
+  if (scale !== undefined) {
+    return scale > 0 && value <= scale
+      ? round((value / scale) * 10)
+      : undefined;
+  }
+  if (value <= 10) return round(value);
+  return value <= 100 ? round(value / 10) : undefined;
+}
+
+// Structured output is preferred; free-text analyses are scanned for a
+// recommendation line and an "x/y" score
+export function extractSignals(result: TranscriptAnalysis): AnalysisSignals {
+  const signals: AnalysisSignals = {};
+
+  const structured = result.structured;
+  if (
+    structured &&
+    typeof structured === "object" &&
+    !Array.isArray(structured)
+  ) {
+    const fields: Record<string, string | number | boolean> = {};
+    for (const [key, value] of Object.entries(structured)) {
+      if (["string", "number", "boolean"].includes(typeof value)) {
+        fields[key] = value as string | number | boolean;
+      }
+      if (
+        /recommend|decision|verdict/i.test(key) &&
+        typeof value === "string"
+      ) {
+        signals.recommendation ??= classifyRecommendation(value);
+      }
+      if (/score|rating/i.test(key) && typeof value === "number") {
+        signals.score ??= normalizeScore(value);
+      }
+    }
+    signals.fields = fields;
+  }
+
+  const recommendationLine = result.analysis.match(RECOMMENDATION_LINE);
+  if (recommendationLine) {
+    signals.recommendation ??= classifyRecommendation(recommendationLine[1]);
+  }
+
+  const scoreLine = result.analysis.match(SCORE_LINE);
+  if (scoreLine) {
+    signals.score ??= normalizeScore(
+      parseFloat(scoreLine[1]),
+      parseFloat(scoreLine[2])
+    );
+  }
+
+  return signals;
+}
+
+function compareFile(
+  file: TranscriptFile,
+  scoreTolerance: number
+): FileComparison {
+  const models = Object.keys(file.results);
+  const signals: Record<string, AnalysisSignals> = Object.fromEntries(
+    models.map((id) => [id, extractSignals(file.results[id])])
+  );
+  const disagreements: Disagreement[] = [];
+
+  // Recommendations: the majority view is the consensus; opposite hiring
+  // directions are a major disagreement, different strengths a minor one
+  const recommendations = Object.fromEntries(
+    models
+      .filter((id) => signals[id].recommendation)
+      .map((id) => [id, signals[id].recommendation!])
+  );
+  const counts = new Map<Recommendation, number>();
+  for (const recommendation of Object.values(recommendations)) {
+    counts.set(recommendation, (counts.get(recommendation) || 0) + 1);
+  }
+  const [consensusRecommendation, backing] = Array.from(counts).sort(
+    (a, b) => b[1] - a[1]
+  )[0] || [undefined, 0];
+
+  if (counts.size > 1) {
+    const directions = new Set(
+      Object.values(recommendations).map(isHireDirection)
+    );
+    disagreements.push({
+      field: "recommendation",
+      severity: directions.size > 1 ? "major" : "minor",
+      values: recommendations,
+      detail: Object.entries(recommendations)
+        .map(([id, r]) => `${id}: ${RECOMMENDATION_LABELS[r]}`)
+        .join(", "),
+    });
+  }
+
+  // Scores: flagged when the spread exceeds the tolerance
+  const scores = Object.fromEntries(
+    models
+      .filter((id) => signals[id].score !== undefined)
+      .map((id) => [id, signals[id].score!])
+  );
+  const scoreValues = Object.values(scores);
+  let averageScore: number | undefined;
+  let scoreRange: [number, number] | undefined;
+  if (scoreValues.length > 0) {
+    averageScore = round(
+      scoreValues.reduce((sum, v) => sum + v, 0) / scoreValues.length
+    );
+    scoreRange = [Math.min(...scoreValues), Math.max(...scoreValues)];
+    const spread = scoreRange[1] - scoreRange[0];
+    if (spread > scoreTolerance) {
+      disagreements.push({
+        field: "score",
+        severity: spread > scoreTolerance * 2 ? "major" : "minor",
+        values: scores,
+        detail: `Scores range from ${scoreRange[0]} to ${scoreRange[1]} (tolerance ${scoreTolerance})`,
+      });
+    }
+  }
+
+  // Structured fields present in every result must match
+  const structuredModels = models.filter((id) => signals[id].fields);
+  if (structuredModels.length > 1) {
+    const keys = Object.keys(signals[structuredModels[0]].fields!).filter(
+      (key) => structuredModels.every((id) => key in signals[id].fields!)
+    );
+    for (const key of keys) {
+      const values = Object.fromEntries(
+        structuredModels.map((id) => [id, signals[id].fields![key]])
+      );
+      if (fieldsDisagree(Object.values(values), scoreTolerance)) {
+        disagreements.push({
+          field: key,
+          severity: "minor",
+          values,
+          detail: `Models returned different values for "${key}"`,
+        });
+      }
+    }
+  }
+
+  return {
+    fileId: file.id,
+    filename: file.originalFile.originalname,
+    models,
+    signals,
+    consensus: {
+      recommendation: consensusRecommendation,
+      agreement:
+        consensusRecommendation !== undefined
+          ? round(backing / Object.keys(recommendations).length)
+          : undefined,
+      averageScore,
+      scoreRange,
+      summary: summarize(
+        models.length,
+        consensusRecommendation,
+        backing,
+        Object.keys(recommendations).length,
+        averageScore,
+        scoreRange,
+        disagreements
+      ),
+    },
+    disagreements,
+  };
+}
+
+// Long free-text fields (summaries, rationales) are never expected to match
+function fieldsDisagree(
+  values: (string | number | boolean)[],
+  numericTolerance: number
+): boolean {
+  if (values.every((v) => typeof v === "number")) {
+    const numbers = values as number[];
+    return Math.max(...numbers) - Math.min(...numbers) > numericTolerance;
+  }
+  if (values.some((v) => typeof v === "string" && v.length > 40)) {
+    return false;
+  }
+  const normalized = new Set(values.map((v) => String(v).trim().toLowerCase()));
+  return normalized.size > 1;
+}
+
+function summarize(
+  modelCount: number,
+  recommendation: Recommendation | undefined,
+  backing: number,
+  withRecommendation: number,
+  averageScore: number | undefined,
+  scoreRange: [number, number] | undefined,
+  disagreements: Disagreement[]
+): string {
+  if (modelCount === 0) return "No model produced a result";
+
+  const parts: string[] = [];
+  if (recommendation) {
+    parts.push(
+      `${backing}/${withRecommendation} model(s) recommend ${RECOMMENDATION_LABELS[recommendation]}`
+    );
+  } else {
+    parts.push("No recommendation found");
+  }
+  if (averageScore !== undefined && scoreRange) {
+    parts.push(
+      `average score ${averageScore}/10 (range ${scoreRange[0]}-${scoreRange[1]})`
+    );
+  }
+  if (modelCount < 2) {
+    parts.push("only one model result to compare");
+  } else if (disagreements.length === 0) {
+    parts.push("models agree");
+  } else {
+    parts.push(
+      `disagreement on ${disagreements.map((d) => d.field).join(", ")}`
+    );
+  }
+  return parts.join("; ");
+}
+
+// Compare every file's results across the batch's model targets
+export function buildComparison(
+  batch: BatchJob,
+  scoreTolerance: number = config.comparison.scoreTolerance
+): BatchComparison {
+  const files = batch.files.map((file) => compareFile(file, scoreTolerance));
+  const compared = files.filter((f) => f.models.length > 1);
+
+  return {
+    batchId: batch.id,
+    models: batch.jobConfig?.models || [],
+    files,
+    summary: {
+      compared: compared.length,
+      withDisagreements: compared.filter((f) => f.disagreements.length > 0)
+        .length,
+      majorDisagreements: compared.filter((f) =>
+        f.disagreements.some((d) => d.severity === "major")
+      ).length,
+    },
+  };
+}
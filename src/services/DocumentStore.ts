@@ -0,0 +1,127 @@
+// src/services/DocumentStore.ts - JSON document persistence shared by batches and prompts
+import fs from "fs";
+import path from "path";
+
+export interface DocumentStore<T extends { id: string }> {
+  load(): Promise<T[]>;
+  save(document: T): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// Fields serialized as ISO strings that must be revived as Date objects
+const DATE_FIELDS = new Set([
+  "startTime",
+  "processingEnd",
+  "createdAt",
+  "updatedAt",
+  "startedAt",
+  "completedAt",
+  "timestamp",
+  "lastHitAt",
+  "reachedAt",
+]);
+
+function reviveDates(key: string, value: any): any {
+  if (DATE_FIELDS.has(key) && typeof value === "string") {
+    return new Date(value);
+  }
+  return value;
+}
+
+// Stores one JSON file per document in a directory
+export class FileDocumentStore<
+  T extends { id: string },
+> implements DocumentStore<T> {
+  private dir: string;
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async load(): Promise<T[]> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const entries = await fs.promises.readdir(this.dir);
+    const documents: T[] = [];
+
+    for (const entry of entries) {
+      if (!entry.endsWith(".json")) continue;
+      try {
+        const raw = await fs.promises.readFile(
+          path.join(this.dir, entry),
+          "utf-8"
+        );
+        documents.push(JSON.parse(raw, reviveDates));
+      } catch (error) {
+        console.warn(`⚠️ Could not load ${entry} from ${this.dir}:`, error);
+      }
+    }
+
+    return documents;
+  }
+
+  // Writes for the same document are chained so a slow write never overwrites a newer one
+  save(document: T): Promise<void> {
+    const data = JSON.stringify(document);
+    const previous = this.writes.get(document.id) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.writeAtomic(this.filePath(document.id), data));
+
+    this.writes.set(document.id, next);
+    next
+      .finally(() => {
+        if (this.writes.get(document.id) === next) {
+          this.writes.delete(document.id);
+        }
+      })
+      .catch(() => undefined);
+
+    return next;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.writes.get(id)?.catch(() => undefined);
+    await fs.promises.rm(this.filePath(id), { force: true });
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  // Write to a temp file and rename so a crash never leaves a truncated document
+  private async writeAtomic(filePath: string, data: string): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, data, "utf-8");
+    await fs.promises.rename(tmpPath, filePath);
+  }
+}
+
+// Keeps nothing between restarts; useful for local experiments
+export class MemoryDocumentStore<
+  T extends { id: string },
+> implements DocumentStore<T> {
+  async load(): Promise<T[]> {
+    return [];
+  }
+
+  async save(_document: T): Promise<void> {}
+
+  async delete(_id: string): Promise<void> {}
+}
+
+// Creates a store for <dataDir>/<collection> using the configured driver
+export function createDocumentStore<T extends { id: string }>(
+  driver: string,
+  dir: string
+): DocumentStore<T> {
+  switch (driver) {
+    case "memory":
+      return new MemoryDocumentStore<T>();
+    case "file":
+      return new FileDocumentStore<T>(dir);
+    default:
+      throw new Error(`Unknown store driver: ${driver}`);
+  }
+}
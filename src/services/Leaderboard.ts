@@ -0,0 +1,190 @@
+// src/services/Leaderboard.ts - Batch-level candidate ranking
+import {
+  BatchJob,
+  Leaderboard,
+  LeaderboardEntry,
+  ScoringConfig,
+  TranscriptAnalysis,
+  TranscriptFile,
+} from "../types";
+import { extractSignals, normalizeScore } from "./ConsensusReport";
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  method: "regex",
+  field: "score",
+};
+
+// A score pattern never needs to be long; longer ones are harder to vet
+const MAX_PATTERN_LENGTH = 200;
+
+const REPEAT = /^(?:[*+]|\{\d+,\d*\})/;
+
+// Like the safe-regex package: a repeated group that itself contains a
+// repeat, e.g. (a+)+ or (\w+\s?)*, can backtrack exponentially on text
+// that almost matches, so patterns with nested repeats are refused
+function hasNestedRepeat(pattern: string): boolean {
+  const groups: boolean[] = [false]; // Whether each open group repeats inside
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      // Character classes cannot contain groups or repeats
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === ")") {
+      const inner = groups.length > 1 ? groups.pop()! : false;
+      const repeated = REPEAT.test(pattern.slice(i + 1));
+      if (inner && repeated) return true;
+      groups[groups.length - 1] ||= inner || repeated;
+    } else if (REPEAT.test(pattern.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+// Returns an error message for a pattern that cannot be used for extraction
+export function checkScorePattern(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Score pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern, "i");
+  } catch (error) {
+    return `Invalid score pattern: ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+  }
+  if (hasNestedRepeat(pattern)) {
+    return "Score pattern must not nest repeats such as (a+)+";
+  }
+  // An empty alternative always matches, exposing the capture group count
+  const groups = new RegExp(`${pattern}|`).exec("")!.length - 1;
+  return groups > 0
+    ? null
+    : "Score pattern needs a capture group for the score";
+}
+
+// Read a 0-10 score from an analysis: the structured field when present,
+// then the custom pattern, then the built-in "Score: x/y" detection
+export function extractScore(
+  result: TranscriptAnalysis,
+  scoring: ScoringConfig
+): number | undefined {
+  const structured = result.structured as Record<string, unknown> | undefined;
+  const value = structured?.[scoring.field];
+  if (typeof value === "number") return normalizeScore(value);
+
+  if (scoring.pattern) {
+    const match = result.analysis.match(new RegExp(scoring.pattern, "i"));
+    if (!match) return undefined;
+    return normalizeScore(
+      parseFloat(match[1]),
+      match[2] !== undefined ? parseFloat(match[2]) : undefined
+    );
+  }
+
+  return extractSignals(result).score;
+}
+
+function scoreFor(
+  file: TranscriptFile,
+  targetId: string,
+  result: TranscriptAnalysis | undefined,
+  scoring: ScoringConfig
+): number | null {
+  // Scores extracted by a model during processing take precedence
+  const extracted = file.scores?.[targetId];
+  if (extracted !== undefined) return extracted;
+  if (!result) return null;
+  return extractScore(result, scoring) ?? null;
+}
+
+// Rank every file by its average score across model targets, or by a single
+// target's (or the judge's) score; files without a score sort last
+export function buildLeaderboard(
+  batch: BatchJob,
+  options: { sortBy?: string; field?: string; pattern?: string } = {}
+): Leaderboard {
+  const scoring: ScoringConfig = {
+    ...(batch.jobConfig?.scoring || DEFAULT_SCORING),
+    ...(options.field && { field: options.field }),
+    ...(options.pattern && { pattern: options.pattern }),
+  };
+  const targets = (batch.jobConfig?.models || []).map((t) => t.id);
+  const columns = batch.jobConfig?.judge ? [...targets, "judge"] : targets;
+  const sortBy =
+    options.sortBy && columns.includes(options.sortBy)
+      ? options.sortBy
+      : "average";
+
+  const rows = batch.files.map((file) => {
+    const scores: Record<string, number | null> = {};
+    for (const id of targets) {
+      scores[id] = scoreFor(file, id, file.results[id], scoring);
+    }
+    if (batch.jobConfig?.judge) {
+      scores.judge = scoreFor(file, "judge", file.judge, scoring);
+    }
+
+    const modelScores = targets
+      .map((id) => scores[id])
+      .filter((score): score is number => score !== null);
+    const average =
+      modelScores.length > 0
+        ? Math.round(
+            (modelScores.reduce((sum, v) => sum + v, 0) / modelScores.length) *
+              10
+          ) / 10
+        : null;
+
+    return {
+      fileId: file.id,
+      filename: file.originalFile.originalname,
+      scores,
+      average,
+    };
+  });
+
+  const key = (row: Omit<LeaderboardEntry, "rank">) =>
+    sortBy === "average" ? row.average : row.scores[sortBy];
+  rows.sort((a, b) => (key(b) ?? -1) - (key(a) ?? -1));
+
+  const entries: LeaderboardEntry[] = [];
+  rows.forEach((row, i) => {
+    const previous = entries[i - 1];
+    const rank = previous && key(previous) === key(row) ? previous.rank : i + 1;
+    entries.push({ rank, ...row });
+  });
+
+  return { batchId: batch.id, field: scoring.field, sortBy, columns, entries };
+}
+
+// Text starting with =, +, -, @, tab or CR is quoted with a leading ' so a
+// spreadsheet does not run a filename as a formula
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function leaderboardToCsv(leaderboard: Leaderboard): string {
+  const header = ["rank", "filename", "average", ...leaderboard.columns];
+  const lines = leaderboard.entries.map((entry) =>
+    [
+      entry.rank,
+      entry.filename,
+      entry.average,
+      ...leaderboard.columns.map((id) => entry.scores[id]),
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [header.map(csvCell).join(","), ...lines].join("\n") + "\n";
+}
@@ -0,0 +1,111 @@
+// src/services/Pricing.ts - Token usage and cost accounting
+import { ModelPrice, config } from "../config";
+import {
+  BudgetConfig,
+  BudgetStop,
+  UsageBreakdown,
+  UsageTotals,
+} from "../types";
+
+// Lookup order: "provider/model", the exact model, the longest model prefix
+// (so dated releases such as "claude-sonnet-4-20250514" match), "provider/*"
+export function findPrice(
+  provider: string,
+  model: string,
+  prices: Record<string, ModelPrice> = config.pricing.prices
+): ModelPrice | undefined {
+  const exact = prices[`${provider}/${model}`] || prices[model];
+  if (exact) return exact;
+
+  const prefix = Object.keys(prices)
+    .filter((key) => !key.includes("/") && model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : prices[`${provider}/*`];
+}
+
+// USD for one call, or undefined when the model has no price
+export function costOf(
+  provider: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number | undefined {
+  const price = findPrice(provider, model);
+  if (!price) return undefined;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export function emptyUsage(): UsageBreakdown {
+  return { ...emptyTotals(), byTarget: {} };
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    unpricedCalls: 0,
+  };
+}
+
+function addTotals(into: UsageTotals, from: UsageTotals): void {
+  into.calls += from.calls;
+  into.inputTokens += from.inputTokens;
+  into.outputTokens += from.outputTokens;
+  into.cost += from.cost;
+  into.unpricedCalls += from.unpricedCalls;
+}
+
+// Adds one call (cost undefined = unpriced) under the given target key
+export function recordCall(
+  usage: UsageBreakdown,
+  key: string,
+  inputTokens: number,
+  outputTokens: number,
+  cost: number | undefined
+): void {
+  const call: UsageTotals = {
+    calls: 1,
+    inputTokens,
+    outputTokens,
+    cost: cost || 0,
+    unpricedCalls: cost === undefined ? 1 : 0,
+  };
+  addTotals(usage, call);
+  addTotals((usage.byTarget[key] ||= emptyTotals()), call);
+}
+
+export function sumUsage(
+  usages: (UsageBreakdown | undefined)[]
+): UsageBreakdown {
+  const total = emptyUsage();
+  for (const usage of usages) {
+    if (!usage) continue;
+    addTotals(total, usage);
+    for (const [key, totals] of Object.entries(usage.byTarget)) {
+      addTotals((total.byTarget[key] ||= emptyTotals()), totals);
+    }
+  }
+  return total;
+}
+
+// The cap a batch's usage has reached, if any
+export function exceededLimit(
+  usage: UsageTotals | undefined,
+  budget: BudgetConfig
+): BudgetStop["limit"] | undefined {
+  if (!usage) return undefined;
+  if (budget.maxCost && usage.cost >= budget.maxCost) return "cost";
+  const tokens = usage.inputTokens + usage.outputTokens;
+  if (budget.maxTokens && tokens >= budget.maxTokens) return "tokens";
+  return undefined;
+}
+
+// Abort reason for calls cut short by a batch's budget
+export class BudgetExceededError extends Error {
+  constructor(limit: BudgetStop["limit"]) {
+    super(`Batch ${limit} budget reached`);
+    this.name = "BudgetExceededError";
+  }
+}
@@ -0,0 +1,200 @@
+// src/services/PromptLibrary.ts - Saved prompts with immutable versions
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { serverConfig } from "../config";
+import { PromptContent, PromptRef, PromptVersion, SavedPrompt } from "../types";
+import { DocumentStore, createDocumentStore } from "./DocumentStore";
+import {
+  DEFAULT_SYSTEM_TEMPLATE,
+  DEFAULT_USER_TEMPLATE,
+  checkTemplates,
+} from "./PromptTemplate";
+
+export type PromptStore = DocumentStore<SavedPrompt>;
+
+export interface PromptSummary {
+  id: string;
+  name: string;
+  description?: string;
+  latestVersion: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MIN_TEXT_LENGTH = 20;
+
+function trimmed(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// Trims and validates the prompt fields of a request body. Used both for
+// saved prompt versions and for prompts pasted straight into a batch.
+export function parsePromptContent(body: any): {
+  content?: PromptContent;
+  error?: string;
+} {
+  const jobDescription = trimmed(body?.jobDescription);
+  const prompt = trimmed(body?.prompt);
+
+  if (!jobDescription || jobDescription.length < MIN_TEXT_LENGTH) {
+    return { error: "Job description must be at least 20 characters" };
+  }
+  if (!prompt || prompt.length < MIN_TEXT_LENGTH) {
+    return { error: "Prompt must be at least 20 characters" };
+  }
+
+  const systemTemplate = trimmed(body?.systemTemplate);
+  const userTemplate = trimmed(body?.userTemplate);
+  const templateError = checkTemplates(
+    systemTemplate || DEFAULT_SYSTEM_TEMPLATE,
+    userTemplate || DEFAULT_USER_TEMPLATE
+  );
+  if (templateError) return { error: templateError };
+
+  return {
+    content: { jobDescription, prompt, systemTemplate, userTemplate },
+  };
+}
+
+export function createPromptStore(
+  driver: string = serverConfig.batchStore
+): PromptStore {
+  return createDocumentStore<SavedPrompt>(
+    driver,
+    path.join(serverConfig.dataDir, "prompts")
+  );
+}
+
+export class PromptLibrary {
+  private prompts: Map<string, SavedPrompt> = new Map();
+  private store: PromptStore;
+
+  constructor(store: PromptStore = createPromptStore()) {
+    this.store = store;
+  }
+
+  async initialize(): Promise<void> {
+    for (const prompt of await this.store.load()) {
+      this.prompts.set(prompt.id, prompt);
+    }
+    if (this.prompts.size > 0) {
+      console.log(`📚 Loaded ${this.prompts.size} saved prompt(s)`);
+    }
+  }
+
+  list(): PromptSummary[] {
+    return Array.from(this.prompts.values())
+      .map((prompt) => ({
+        id: prompt.id,
+        name: prompt.name,
+        description: prompt.description,
+        latestVersion: prompt.versions.length,
+        createdAt: prompt.createdAt,
+        updatedAt: prompt.updatedAt,
+      }))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  get(id: string): SavedPrompt | null {
+    return this.prompts.get(id) || null;
+  }
+
+  // Latest version when no version number is given
+  getVersion(id: string, version?: number): PromptVersion | null {
+    const prompt = this.prompts.get(id);
+    if (!prompt) return null;
+    return version === undefined
+      ? prompt.versions[prompt.versions.length - 1]
+      : prompt.versions.find((v) => v.version === version) || null;
+  }
+
+  // Resolve a saved version into the reference recorded on a batch
+  resolve(
+    id: string,
+    version?: number
+  ): { ref: PromptRef; content: PromptContent } | null {
+    const prompt = this.prompts.get(id);
+    const saved = this.getVersion(id, version);
+    if (!prompt || !saved) return null;
+
+    return {
+      ref: { id: prompt.id, version: saved.version, name: prompt.name },
+      content: {
+        jobDescription: saved.jobDescription,
+        prompt: saved.prompt,
+        systemTemplate: saved.systemTemplate,
+        userTemplate: saved.userTemplate,
+      },
+    };
+  }
+
+  async create(
+    name: string,
+    description: string | undefined,
+    content: PromptContent,
+    note?: string
+  ): Promise<SavedPrompt> {
+    const now = new Date();
+    const prompt: SavedPrompt = {
+      id: uuidv4(),
+      name,
+      description,
+      versions: [{ ...content, version: 1, note, createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.prompts.set(prompt.id, prompt);
+    await this.store.save(prompt);
+    console.log(`📚 Saved prompt "${name}" (${prompt.id})`);
+    return prompt;
+  }
+
+  async addVersion(
+    id: string,
+    content: PromptContent,
+    note?: string
+  ): Promise<PromptVersion | null> {
+    const prompt = this.prompts.get(id);
+    if (!prompt) return null;
+
+    const version: PromptVersion = {
+      ...content,
+      version: prompt.versions.length + 1,
+      note,
+      createdAt: new Date(),
+    };
+    prompt.versions.push(version);
+    prompt.updatedAt = version.createdAt;
+
+    await this.store.save(prompt);
+    console.log(`📚 Prompt "${prompt.name}" is now at v${version.version}`);
+    return version;
+  }
+
+  // Only the name and description can change; version content is immutable
+  async rename(
+    id: string,
+    changes: { name?: string; description?: string }
+  ): Promise<SavedPrompt | null> {
+    const prompt = this.prompts.get(id);
+    if (!prompt) return null;
+
+    if (changes.name !== undefined) prompt.name = changes.name;
+    if (changes.description !== undefined) {
+      prompt.description = changes.description || undefined;
+    }
+    prompt.updatedAt = new Date();
+
+    await this.store.save(prompt);
+    return prompt;
+  }
+
+  // Batches keep a copy of the prompt text, so they stay traceable after deletion
+  async delete(id: string): Promise<boolean> {
+    if (!this.prompts.delete(id)) return false;
+    await this.store.delete(id);
+    console.log(`🗑️ Deleted prompt ${id}`);
+    return true;
+  }
+}
@@ -0,0 +1,175 @@
+// src/services/PromptTemplate.ts - {{placeholder}} prompt templates
+import { JobConfig, TranscriptFile } from "../types";
+import { dialogVariables, parseTurns, speakersOf } from "./SpeakerTurns";
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+}
+
+export type TemplateVariables = Record<string, string>;
+
+export const TEMPLATE_VARIABLES = [
+  "prompt",
+  "jobDescription",
+  "transcript",
+  "dialog",
+  "candidateTurns",
+  "filename",
+];
+
+// A template needs at least one of these to see the interview
+const TRANSCRIPT_VARIABLES = ["transcript", "dialog", "candidateTurns"];
+
+export const DEFAULT_SYSTEM_TEMPLATE =
+  "{{prompt}}\n\nJob description:\n{{jobDescription}}";
+
+export const DEFAULT_USER_TEMPLATE =
+  "Analyze this transcript ({{filename}}):\n\n{{transcript}}";
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+export function templatePlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]);
+}
+
+// Returns an error message for templates that reference unknown variables
+// or never include the transcript in any form
+export function checkTemplates(
+  systemTemplate: string,
+  userTemplate: string,
+  variables: string[] = TEMPLATE_VARIABLES
+): string | null {
+  const used = [
+    ...templatePlaceholders(systemTemplate),
+    ...templatePlaceholders(userTemplate),
+  ];
+
+  const unknown = used.filter((name) => !variables.includes(name));
+  if (unknown.length > 0) {
+    return `Unknown template placeholder(s): ${Array.from(new Set(unknown))
+      .map((name) => `{{${name}}}`)
+      .join(", ")}`;
+  }
+
+  if (!used.some((name) => TRANSCRIPT_VARIABLES.includes(name))) {
+    return "Prompt templates must include {{transcript}}, {{dialog}} or {{candidateTurns}}";
+  }
+
+  return null;
+}
+
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables
+): string {
+  // A replacer function keeps "$" sequences in transcripts literal
+  return template.replace(PLACEHOLDER, (match, name) =>
+    name in variables ? variables[name] : match
+  );
+}
+
+export function templateVariables(
+  jobConfig: JobConfig,
+  file: TranscriptFile
+): TemplateVariables {
+  const content = file.content || "";
+  return {
+    prompt: jobConfig.prompt,
+    jobDescription: jobConfig.jobDescription,
+    transcript: content,
+    ...dialogVariables(content, file.turns || []),
+    filename: file.originalFile.originalname,
+  };
+}
+
+// Transcript variables for one part of a file's transcript, split into turns
+// with the speakers and candidate found for the whole file
+export function transcriptVariables(
+  file: TranscriptFile,
+  text: string
+): TemplateVariables {
+  const turns = file.turns?.length
+    ? parseTurns(text, speakersOf(file.turns))
+    : [];
+  for (const turn of turns) {
+    turn.candidate = !!turn.speaker && turn.speaker === file.candidateSpeaker;
+  }
+  return { transcript: text, ...dialogVariables(text, turns) };
+}
+
+// Reduce step for chunked transcripts: the batch's own instructions, with
+// the part analyses in place of the transcript
+export function renderReducePrompt(
+  jobConfig: JobConfig,
+  file: TranscriptFile,
+  partAnalyses: string[]
+): RenderedPrompt {
+  const { system } = renderPrompt(
+    jobConfig,
+    file,
+    transcriptVariables(file, "")
+  );
+  const filename = file.originalFile.originalname;
+  const parts = partAnalyses
+    .map((analysis, i) => `### Part ${i + 1}\n\n${analysis}`)
+    .join("\n\n");
+
+  return {
+    system,
+    user:
+      `The transcript ${filename} was too long to analyse at once, so ` +
+      `consecutive parts of it were analysed separately. Combine the part ` +
+      `analyses below into a single analysis of the whole interview, ` +
+      `following the instructions above.\n\n${parts}`,
+  };
+}
+
+// The judge sees the transcript and every successful analysis, labelled by
+// target id so its verdict can refer to individual models. Without the
+// transcript (too long to fit) it judges from the analyses alone.
+export function renderJudgePrompt(
+  jobConfig: JobConfig,
+  file: TranscriptFile,
+  includeTranscript = true
+): RenderedPrompt {
+  const analyses = jobConfig.models
+    .filter((target) => file.results[target.id])
+    .map(
+      (target) =>
+        `### ${target.id} (${target.model})\n\n${file.results[target.id].analysis}`
+    )
+    .join("\n\n");
+
+  const transcript = includeTranscript
+    ? file.content || ""
+    : "(Too long to include. Each analysis below covers the whole transcript.)";
+
+  return {
+    system: `${jobConfig.judge?.prompt || ""}\n\nJob description:\n${jobConfig.jobDescription}`,
+    user: `Transcript (${file.originalFile.originalname}):\n\n${transcript}\n\n## Model analyses\n\n${analyses}`,
+  };
+}
+
+// The exact system and user messages every provider receives for a file.
+// Overrides replace variables, e.g. one chunk of a long transcript.
+export function renderPrompt(
+  jobConfig: JobConfig,
+  file: TranscriptFile,
+  overrides: Partial<TemplateVariables> = {}
+): RenderedPrompt {
+  const variables = {
+    ...templateVariables(jobConfig, file),
+    ...overrides,
+  } as TemplateVariables;
+  return {
+    system: renderTemplate(
+      jobConfig.systemTemplate || DEFAULT_SYSTEM_TEMPLATE,
+      variables
+    ),
+    user: renderTemplate(
+      jobConfig.userTemplate || DEFAULT_USER_TEMPLATE,
+      variables
+    ),
+  };
+}
@@ -0,0 +1,134 @@
+// src/services/RateLimiter.ts - Token-bucket rate limiting per provider
+import { sleep } from "./RetryPolicy";
+
+export interface RateLimitConfig {
+  rpm: number; // Requests per minute (0 = unlimited)
+  tpm: number; // Tokens per minute (0 = unlimited)
+}
+
+export interface RateLimitState {
+  rpm: number;
+  tpm: number;
+  availableRequests: number | null; // null when the budget is unlimited
+  availableTokens: number | null;
+  waiting: number;
+  pausedUntil?: string;
+}
+
+const MINUTE_MS = 60000;
+
+// Rough prompt size estimate: ~4 characters per token for English text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  get unlimited(): boolean {
+    return this.capacity <= 0;
+  }
+
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  // Milliseconds until `amount` tokens are available (0 if available now)
+  waitTime(amount: number): number {
+    if (this.unlimited) return 0;
+    const needed = Math.min(amount, this.capacity) - this.available();
+    return needed <= 0 ? 0 : Math.ceil((needed / this.capacity) * MINUTE_MS);
+  }
+
+  // Requests larger than the whole bucket are clamped so they can still run
+  take(amount: number): void {
+    if (this.unlimited) return;
+    this.refill();
+    this.tokens -= Math.min(amount, this.capacity);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) / MINUTE_MS) * this.capacity;
+    this.tokens = Math.min(this.capacity, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+}
+
+// Callers are served in arrival order so a large request cannot be starved
+// by a stream of small ones
+export class RateLimiter {
+  private requests: TokenBucket;
+  private tokens: TokenBucket;
+  private pausedUntil = 0;
+  private waiting = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly limits: RateLimitConfig) {
+    this.requests = new TokenBucket(limits.rpm);
+    this.tokens = new TokenBucket(limits.tpm);
+  }
+
+  acquire(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+    this.waiting++;
+    const turn = this.queue.then(() =>
+      this.waitForCapacity(estimatedTokens, signal)
+    );
+    this.queue = turn.catch(() => undefined);
+    return turn.finally(() => {
+      this.waiting--;
+    });
+  }
+
+  // Called when a provider answers 429 with Retry-After: hold every caller
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  getState(): RateLimitState {
+    return {
+      rpm: this.limits.rpm,
+      tpm: this.limits.tpm,
+      availableRequests: this.requests.unlimited
+        ? null
+        : Math.floor(this.requests.available()),
+      availableTokens: this.tokens.unlimited
+        ? null
+        : Math.floor(this.tokens.available()),
+      waiting: this.waiting,
+      pausedUntil:
+        this.pausedUntil > Date.now()
+          ? new Date(this.pausedUntil).toISOString()
+          : undefined,
+    };
+  }
+
+  private async waitForCapacity(
+    estimatedTokens: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    for (;;) {
+      if (signal?.aborted) throw new Error("Rate limiter wait aborted");
+
+      const wait = Math.max(
+        this.pausedUntil - Date.now(),
+        this.requests.waitTime(1),
+        this.tokens.waitTime(estimatedTokens)
+      );
+
+      if (wait <= 0) {
+        this.requests.take(1);
+        this.tokens.take(estimatedTokens);
+        return;
+      }
+
+      await sleep(wait, signal);
+    }
+  }
+}
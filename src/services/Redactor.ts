@@ -0,0 +1,258 @@
+// src/services/Redactor.ts - Reversible PII redaction for provider-bound text
+import {
+  RedactionAuditEntry,
+  RedactionConfig,
+  RedactionType,
+  TranscriptFile,
+  TranscriptRedaction,
+} from "../types";
+import { isRoleLabel } from "./SpeakerTurns";
+
+interface Rule {
+  type: RedactionType;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+const STREET_SUFFIX =
+  "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle|Parkway|Highway";
+
+// Structured values are replaced before names so a name inside an email
+// address does not split it
+const RULES: Rule[] = [
+  {
+    type: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  {
+    type: "url",
+    pattern: /\b(?:https?:\/\/|www\.)[^\s<>"')\]]+[^\s<>"')\].,;:!?]/g,
+  },
+  {
+    type: "address",
+    pattern: new RegExp(
+      String.raw`\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,4}(?:${STREET_SUFFIX})\b\.?` +
+        String.raw`(?:,?\s*(?:Apt|Suite|Unit)\.?\s*#?\w+)?` +
+        String.raw`(?:,\s*[A-Z][a-z]+(?:\s[A-Z][a-z]+)*)?` +
+        String.raw`(?:,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?)?`,
+      "g"
+    ),
+  },
+  {
+    type: "phone",
+    pattern: /(?<![\w:])\+?(?:\(?\d{1,4}\)?[\s.-]?){2,5}\d{2,4}(?![\w:])/g,
+    // Years, counts and times rarely reach the 9 digits of a phone number
+    accept: (match) => {
+      const digits = match.replace(/\D/g, "").length;
+      return digits >= 9 && digits <= 15;
+    },
+  },
+];
+
+const TITLED_NAME =
+  /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+([A-Z][a-z]+(?:[\s-][A-Z][a-z]+)?)/g;
+const INTRODUCED_NAME =
+  /\b(?:[Mm]y name is|[Mm]y name's|[Tt]his is|I am|I'm)\s+([A-Z][a-z]+(?:\s[A-Z][a-z]+)?)/g;
+
+// Capitalised words after "I am" that are not names
+const NOT_NAMES = new Set([
+  "Happy",
+  "Glad",
+  "Excited",
+  "Sorry",
+  "Sure",
+  "Not",
+  "Very",
+  "Really",
+  "Currently",
+  "Also",
+  "Just",
+  "Still",
+  "Great",
+  "Fine",
+  "Good",
+  "Here",
+]);
+
+// Names come from speaker labels, introductions ("my name is ..."), titles
+// ("Dr. ...") and the configured terms; every later mention is replaced too
+function collectNames(file: TranscriptFile, text: string): string[] {
+  const names = new Set<string>();
+  for (const turn of file.turns || []) {
+    if (turn.speaker && !isRoleLabel(turn.speaker)) names.add(turn.speaker);
+  }
+  for (const pattern of [TITLED_NAME, INTRODUCED_NAME]) {
+    for (const match of text.matchAll(pattern)) {
+      const name = match[1].trim();
+      if (!NOT_NAMES.has(name.split(/\s+/)[0])) names.add(name);
+    }
+  }
+  return [...names];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// One redactor per file: the same value always gets the same placeholder,
+// so speaker labels, turns and the transcript stay consistent
+class FileRedactor {
+  private byValue = new Map<string, RedactionAuditEntry>();
+  private counts = new Map<RedactionType, number>();
+  private nameRules: { pattern: RegExp; value: string; type: RedactionType }[] =
+    [];
+
+  constructor(
+    private readonly options: RedactionConfig,
+    names: string[]
+  ) {
+    const types = new Set(options.types);
+    const candidates: [string, string, RedactionType][] = [];
+    for (const term of options.terms) candidates.push([term, term, "custom"]);
+    if (types.has("name")) {
+      for (const name of names) {
+        candidates.push([name, name, "name"]);
+        // "Jane" and "Doe" on their own refer to the same person as "Jane Doe"
+        for (const part of name.split(/\s+/)) {
+          if (part !== name && part.length > 2) {
+            candidates.push([part, name, "name"]);
+          }
+        }
+      }
+    }
+
+    // Longest first, so "Jane Doe" is replaced before "Jane"
+    this.nameRules = candidates
+      .filter(([text]) => text.trim())
+      .sort((a, b) => b[0].length - a[0].length)
+      .map(([text, value, type]) => ({
+        pattern: new RegExp(
+          `(?<![\\w])${escapeRegExp(text.trim())}(?![\\w])`,
+          type === "custom" ? "gi" : "g"
+        ),
+        value,
+        type,
+      }));
+  }
+
+  // Counted only for the transcript itself, not for derived copies
+  redact(text: string, count = false): string {
+    let result = text;
+    for (const rule of RULES) {
+      if (!this.options.types.includes(rule.type)) continue;
+      result = result.replace(rule.pattern, (match) =>
+        rule.accept && !rule.accept(match)
+          ? match
+          : this.placeholder(rule.type, match, count)
+      );
+    }
+    for (const rule of this.nameRules) {
+      result = result.replace(rule.pattern, () =>
+        this.placeholder(rule.type, rule.value, count)
+      );
+    }
+    return result;
+  }
+
+  get audit(): RedactionAuditEntry[] {
+    return [...this.byValue.values()];
+  }
+
+  private placeholder(
+    type: RedactionType,
+    value: string,
+    count: boolean
+  ): string {
+    const key = type === "custom" ? value.toLowerCase() : value;
+    let entry = this.byValue.get(key);
+    if (!entry) {
+      const n = (this.counts.get(type) || 0) + 1;
+      this.counts.set(type, n);
+      entry = {
+        type,
+        placeholder: `[${type.toUpperCase()}_${n}]`,
+        value,
+        occurrences: 0,
+      };
+      this.byValue.set(key, entry);
+    }
+    if (count) entry.occurrences++;
+    return entry.placeholder;
+  }
+}
+
+// Redacted copies of everything a provider can see for a file: transcript,
+// turns, candidate label and filename. The placeholder mapping stays local.
+export function redactTranscript(
+  file: TranscriptFile,
+  options: RedactionConfig
+): TranscriptRedaction {
+  const content = file.content || "";
+  const redactor = new FileRedactor(options, collectNames(file, content));
+
+  const redactedContent = redactor.redact(content, true);
+  const turns = (file.turns || []).map((turn) => ({
+    ...turn,
+    speaker: turn.speaker && redactor.redact(turn.speaker),
+    text: redactor.redact(turn.text),
+  }));
+
+  const audit = redactor.audit;
+  return {
+    content: redactedContent,
+    turns,
+    candidateSpeaker:
+      file.candidateSpeaker && redactor.redact(file.candidateSpeaker),
+    filename: redactor.redact(file.originalFile.originalname),
+    placeholders: Object.fromEntries(
+      audit.map((entry) => [entry.placeholder, entry.value])
+    ),
+    audit,
+  };
+}
+
+// The file as providers see it. Only for building prompts: status and
+// results must still be written to the original file.
+export function providerView(file: TranscriptFile): TranscriptFile {
+  const { redaction } = file;
+  if (!redaction) return file;
+  return {
+    ...file,
+    content: redaction.content,
+    turns: redaction.turns,
+    candidateSpeaker: redaction.candidateSpeaker,
+    originalFile: { ...file.originalFile, originalname: redaction.filename },
+  };
+}
+
+// Put the real values back into provider output
+export function restorePlaceholders(
+  text: string,
+  placeholders: Record<string, string>
+): string {
+  return text.replace(/\[[A-Z]+_\d+\]/g, (placeholder) =>
+    placeholder in placeholders ? placeholders[placeholder] : placeholder
+  );
+}
+
+// Same for every string inside structured output
+export function restoreValue(
+  value: unknown,
+  placeholders: Record<string, string>
+): unknown {
+  if (typeof value === "string") {
+    return restorePlaceholders(value, placeholders);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => restoreValue(item, placeholders));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        restoreValue(item, placeholders),
+      ])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,170 @@
+// src/services/ResponseCache.ts - Content-addressed cache of provider responses
+import crypto from "crypto";
+import path from "path";
+import { config, serverConfig } from "../config";
+import { CacheStats, CachedResponse, TranscriptAnalysis } from "../types";
+import { DocumentStore, createDocumentStore } from "./DocumentStore";
+
+export type CacheStore = DocumentStore<CachedResponse>;
+
+// Everything that determines a provider's answer
+export interface CacheKeyParts {
+  transcript: string;
+  system: string;
+  user: string;
+  schema?: Record<string, unknown>;
+  provider: string;
+  model: string;
+}
+
+export interface CacheFilter {
+  provider?: string;
+  model?: string;
+  before?: Date; // Entries created before this date
+}
+
+// Entries are stored as one JSON document each under <dataDir>/cache
+export function createCacheStore(
+  driver: string = serverConfig.batchStore
+): CacheStore {
+  return createDocumentStore<CachedResponse>(
+    driver,
+    path.join(serverConfig.dataDir, "cache")
+  );
+}
+
+// Fields are length-prefixed so no two different calls hash the same input
+export function cacheKey(parts: CacheKeyParts): string {
+  const hash = crypto.createHash("sha256");
+  for (const value of [
+    parts.provider,
+    parts.model,
+    parts.transcript,
+    parts.system,
+    parts.user,
+    parts.schema ? JSON.stringify(parts.schema) : "",
+  ]) {
+    hash.update(`${Buffer.byteLength(value)}:`).update(value);
+  }
+  return hash.digest("hex");
+}
+
+export class ResponseCache {
+  private entries: Map<string, CachedResponse> = new Map();
+  private store: CacheStore;
+  private ttlMs: number;
+
+  constructor(
+    store: CacheStore = createCacheStore(),
+    ttlHours: number = config.cache.ttlHours
+  ) {
+    this.store = store;
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  async initialize(): Promise<void> {
+    for (const entry of await this.store.load()) {
+      this.entries.set(entry.id, entry);
+    }
+    if (this.entries.size > 0) {
+      console.log(`🗃️ Loaded ${this.entries.size} cached response(s)`);
+    }
+  }
+
+  // A hit counts towards the entry's hits; expired entries are dropped
+  get(key: string): TranscriptAnalysis | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (this.isExpired(entry)) {
+      this.remove(key);
+      return undefined;
+    }
+
+    entry.hits++;
+    entry.lastHitAt = new Date();
+    this.persist(entry);
+    return entry.analysis;
+  }
+
+  set(
+    key: string,
+    entry: Omit<CachedResponse, "id" | "createdAt" | "hits">
+  ): void {
+    const cached: CachedResponse = {
+      ...entry,
+      id: key,
+      createdAt: new Date(),
+      hits: 0,
+    };
+    this.entries.set(key, cached);
+    this.persist(cached);
+  }
+
+  // Newest first
+  list(filter: CacheFilter = {}): CachedResponse[] {
+    return this.matching(filter).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  getEntry(key: string): CachedResponse | null {
+    return this.entries.get(key) || null;
+  }
+
+  stats(filter: CacheFilter = {}): CacheStats {
+    const stats: CacheStats = {
+      entries: 0,
+      hits: 0,
+      savedCost: 0,
+      byModel: {},
+    };
+    for (const entry of this.matching(filter)) {
+      stats.entries++;
+      stats.hits += entry.hits;
+      stats.savedCost += entry.hits * (entry.analysis.metadata?.cost || 0);
+      const model = (stats.byModel[`${entry.provider}/${entry.model}`] ||= {
+        entries: 0,
+        hits: 0,
+      });
+      model.entries++;
+      model.hits += entry.hits;
+    }
+    return stats;
+  }
+
+  // Removes matching entries (all of them without a filter)
+  purge(filter: CacheFilter = {}): number {
+    const entries = this.matching(filter);
+    for (const entry of entries) this.remove(entry.id);
+    return entries.length;
+  }
+
+  remove(key: string): boolean {
+    if (!this.entries.delete(key)) return false;
+    this.store.delete(key).catch((error) => {
+      console.warn(`⚠️ Failed to delete cached response ${key}:`, error);
+    });
+    return true;
+  }
+
+  private matching(filter: CacheFilter): CachedResponse[] {
+    return Array.from(this.entries.values()).filter(
+      (entry) =>
+        (!filter.provider || entry.provider === filter.provider) &&
+        (!filter.model || entry.model === filter.model) &&
+        (!filter.before || entry.createdAt < filter.before)
+    );
+  }
+
+  private isExpired(entry: CachedResponse): boolean {
+    return (
+      this.ttlMs > 0 && Date.now() - entry.createdAt.getTime() > this.ttlMs
+    );
+  }
+
+  private persist(entry: CachedResponse): void {
+    this.store.save(entry).catch((error) => {
+      console.warn(`⚠️ Failed to persist cached response ${entry.id}:`, error);
+    });
+  }
+}
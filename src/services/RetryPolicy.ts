@@ -0,0 +1,245 @@
+// src/services/RetryPolicy.ts - Retry, backoff and timeout handling for provider calls
+import { config } from "../config";
+import { StructuredOutputError } from "./StructuredOutput";
+
+export interface RetryOptions {
+  maxAttempts: number;
+  delay: number; // Base delay for exponential backoff (ms)
+  maxDelay: number;
+  timeout: number; // Per-attempt timeout (ms)
+  signal?: AbortSignal; // Caller cancellation (e.g. batch cancelled)
+  beforeAttempt?: (signal?: AbortSignal) => Promise<void>; // e.g. rate limiting
+  onAttempt?: (result: AttemptResult) => void;
+}
+
+export interface AttemptResult {
+  attempt: number;
+  startedAt: Date;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  status?: number;
+  retryable?: boolean;
+  retryAfterMs?: number;
+}
+
+export interface ErrorClassification {
+  retryable: boolean;
+  status?: number;
+  reason: string;
+  retryAfterMs?: number; // Server-requested wait (Retry-After / RetryInfo)
+}
+
+export class ProviderTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Provider call timed out after ${timeoutMs}ms`);
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429]);
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+const NETWORK_ERROR_NAMES = new Set([
+  "APIConnectionError",
+  "APIConnectionTimeoutError",
+  "FetchError",
+]);
+
+export const defaultRetryOptions: RetryOptions = {
+  maxAttempts: config.retries.maxAttempts,
+  delay: config.retries.delay,
+  maxDelay: 30000,
+  timeout: config.timeouts.processing,
+};
+
+// Rate limits, server errors, timeouts, network failures and schema-invalid
+// output are worth another attempt; auth failures, unknown models and malformed requests are not
+export function classifyError(error: any): ErrorClassification {
+  if (error instanceof ProviderTimeoutError) {
+    return { retryable: true, reason: "timeout" };
+  }
+
+  // Another sample from the model may well produce valid output
+  if (error instanceof StructuredOutputError) {
+    return { retryable: true, reason: "invalid_output" };
+  }
+
+  const status: number | undefined =
+    typeof error?.status === "number" ? error.status : undefined;
+
+  if (status !== undefined) {
+    if (RETRYABLE_STATUS.has(status) || status >= 500) {
+      return {
+        retryable: true,
+        status,
+        reason: status === 429 ? "rate_limited" : "server_error",
+        retryAfterMs: parseRetryAfter(error),
+      };
+    }
+    return {
+      retryable: false,
+      status,
+      reason: status === 401 || status === 403 ? "auth" : "client_error",
+    };
+  }
+
+  const code = error?.code || error?.cause?.code;
+  if (
+    NETWORK_ERROR_CODES.has(code) ||
+    NETWORK_ERROR_NAMES.has(error?.name) ||
+    /fetch failed|socket hang up|network/i.test(error?.message || "")
+  ) {
+    return { retryable: true, reason: "network" };
+  }
+
+  return { retryable: false, reason: "unknown" };
+}
+
+// OpenAI and Anthropic errors carry fetch Headers; Gemini reports a
+// google.rpc.RetryInfo entry such as { retryDelay: "30s" } in errorDetails
+export function parseRetryAfter(error: any): number | undefined {
+  const headers = error?.headers;
+  const header = (name: string): string | undefined =>
+    typeof headers?.get === "function" ? headers.get(name) : headers?.[name];
+
+  const retryAfterMs = parseFloat(header("retry-after-ms") || "");
+  if (!isNaN(retryAfterMs)) return retryAfterMs;
+
+  const retryAfter = header("retry-after");
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const retryInfo = (error?.errorDetails || []).find(
+    (detail: any) => typeof detail?.retryDelay === "string"
+  );
+  if (retryInfo) {
+    const seconds = parseFloat(retryInfo.retryDelay);
+    if (!isNaN(seconds)) return seconds * 1000;
+  }
+
+  return undefined;
+}
+
+// Exponential backoff with "equal jitter": half fixed, half random
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = Math.min(
+    options.maxDelay,
+    options.delay * Math.pow(2, attempt - 1)
+  );
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+// Run fn with a per-attempt timeout, retrying retryable failures with backoff.
+// fn receives a signal that aborts on timeout or caller cancellation.
+export async function withRetry<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const opts: RetryOptions = { ...defaultRetryOptions, ...options };
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
+    if (opts.signal?.aborted) throw abortReason(opts.signal);
+
+    await opts.beforeAttempt?.(opts.signal);
+
+    const startedAt = new Date();
+    try {
+      const result = await runWithTimeout(fn, opts.timeout, opts.signal);
+      opts.onAttempt?.({
+        attempt,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        success: true,
+      });
+      return result;
+    } catch (error) {
+      lastError = error;
+
+      // Caller cancellation is never retried or recorded as a provider failure
+      if (opts.signal?.aborted) throw error;
+
+      const classification = classifyError(error);
+      opts.onAttempt?.({
+        attempt,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        status: classification.status,
+        retryable: classification.retryable,
+        retryAfterMs: classification.retryAfterMs,
+      });
+
+      if (!classification.retryable || attempt >= opts.maxAttempts) break;
+
+      await sleep(
+        Math.max(backoffDelay(attempt, opts), classification.retryAfterMs || 0),
+        opts.signal
+      );
+    }
+  }
+
+  throw lastError;
+}
+
+async function runWithTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parent?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(abortReason(parent!));
+  parent?.addEventListener("abort", onParentAbort, { once: true });
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ProviderTimeoutError(timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener("abort", onParentAbort);
+  }
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error("Operation aborted");
+}
+
+// Resolves early (without throwing) when the signal is aborted
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
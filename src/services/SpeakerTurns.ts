@@ -0,0 +1,189 @@
+// src/services/SpeakerTurns.ts - Speaker detection and candidate/interviewer turns
+import { TranscriptTurn } from "../types";
+
+export interface NormalizedTranscript {
+  turns: TranscriptTurn[]; // Empty when no speaker labels were found
+  candidateSpeaker?: string;
+}
+
+const TIMESTAMP = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?`;
+const LABEL = String.raw`[A-Za-z][\w.'’()\- ]{0,39}?`;
+
+// "Name: text", optionally with a "[00:01:02]" / "00:01:02 -" prefix, a
+// "Name (00:01:02):" suffix or markdown bold ("**Name:**")
+const LABELLED_LINE = new RegExp(
+  String.raw`^\s*(?:[\[(]?(${TIMESTAMP})[\])]?\s*[-–]?\s*)?\**(${LABEL})\s*(?:[\[(](${TIMESTAMP})[\])])?\s*\**:\**(?:\s+(.*))?$`
+);
+
+// Otter-style header on its own line: "Speaker 1  0:03"
+const HEADER_LINE = new RegExp(String.raw`^\s*(${LABEL})\s+(${TIMESTAMP})\s*$`);
+
+const CANDIDATE_ROLE = /\b(candidate|interviewee|applicant)\b|^a$/i;
+const INTERVIEWER_ROLE =
+  /\b(interviewer|recruiter|hiring manager|host|moderator)\b|^q$/i;
+
+// Labels that name a role are speakers even if they appear only once
+export function isRoleLabel(label: string): boolean {
+  return (
+    CANDIDATE_ROLE.test(label) ||
+    INTERVIEWER_ROLE.test(label) ||
+    /^speaker\s*\d+$/i.test(label)
+  );
+}
+
+interface LabelMatch {
+  speaker: string;
+  timestamp?: string;
+  text: string;
+}
+
+function matchLabel(line: string): LabelMatch | null {
+  const header = line.match(HEADER_LINE);
+  const labelled = header ? null : line.match(LABELLED_LINE);
+  const match: LabelMatch | null = header
+    ? { speaker: header[1].trim(), timestamp: header[2], text: "" }
+    : labelled
+      ? {
+          speaker: labelled[2].trim(),
+          timestamp: labelled[1] || labelled[3],
+          text: (labelled[4] || "").trim(),
+        }
+      : null;
+
+  // Longer prefixes are prose ("So what I did was: ..."), not a speaker
+  if (!match || !match.speaker || match.speaker.split(/\s+/).length > 4) {
+    return null;
+  }
+  return match;
+}
+
+// Split text into speaker turns. A label only counts when it is used at
+// least twice, is timestamped or names a role, so one-off "Note:" lines
+// stay text.
+// knownSpeakers are always accepted, e.g. when re-parsing one chunk.
+export function parseTurns(
+  text: string,
+  knownSpeakers: string[] = []
+): TranscriptTurn[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const matches = lines.map(matchLabel);
+
+  const counts = new Map<string, number>();
+  const speakers = new Set<string>();
+  for (const match of matches) {
+    if (!match) continue;
+    const count = (counts.get(match.speaker) || 0) + 1;
+    counts.set(match.speaker, count);
+    if (count >= 2 || match.timestamp || isRoleLabel(match.speaker)) {
+      speakers.add(match.speaker);
+    }
+  }
+  for (const speaker of knownSpeakers) speakers.add(speaker);
+
+  if (speakers.size === 0) return [];
+
+  const turns: TranscriptTurn[] = [];
+  lines.forEach((line, i) => {
+    const match = matches[i];
+    if (match && speakers.has(match.speaker)) {
+      turns.push({
+        speaker: match.speaker,
+        timestamp: match.timestamp,
+        text: match.text,
+        candidate: false,
+      });
+      return;
+    }
+
+    const content = line.trim();
+    if (!content) return;
+    const current = turns[turns.length - 1];
+    if (current) {
+      current.text = current.text ? `${current.text} ${content}` : content;
+    } else {
+      // Text before the first label (titles, headers) has no speaker
+      turns.push({ text: content, candidate: false });
+    }
+  });
+
+  return turns.filter((turn) => turn.text);
+}
+
+// An explicit setting matches a speaker exactly or as a substring (case
+// insensitive). Otherwise a speaker labelled as the candidate wins, then the
+// speaker who talks most among those not labelled as the interviewer.
+export function pickCandidate(
+  turns: TranscriptTurn[],
+  setting?: string
+): string | undefined {
+  const words = new Map<string, number>();
+  for (const turn of turns) {
+    if (!turn.speaker) continue;
+    words.set(
+      turn.speaker,
+      (words.get(turn.speaker) || 0) + turn.text.split(/\s+/).length
+    );
+  }
+  const speakers = [...words.keys()];
+
+  if (setting) {
+    const wanted = setting.trim().toLowerCase();
+    return (
+      speakers.find((speaker) => speaker.toLowerCase() === wanted) ||
+      speakers.find((speaker) => speaker.toLowerCase().includes(wanted))
+    );
+  }
+
+  const labelled = speakers.find((speaker) => CANDIDATE_ROLE.test(speaker));
+  if (labelled) return labelled;
+
+  return speakers
+    .filter((speaker) => !INTERVIEWER_ROLE.test(speaker))
+    .sort((a, b) => words.get(b)! - words.get(a)!)[0];
+}
+
+export function normalizeTranscript(
+  content: string,
+  candidateSetting?: string,
+  knownSpeakers?: string[]
+): NormalizedTranscript {
+  const turns = parseTurns(content, knownSpeakers);
+  const candidateSpeaker = pickCandidate(turns, candidateSetting);
+  for (const turn of turns) {
+    turn.candidate = !!candidateSpeaker && turn.speaker === candidateSpeaker;
+  }
+  return { turns, candidateSpeaker };
+}
+
+// One "[00:01:02] Name: text" line per turn
+export function formatTurns(turns: TranscriptTurn[]): string {
+  return turns
+    .map((turn) => {
+      const time = turn.timestamp ? `[${turn.timestamp}] ` : "";
+      const speaker = turn.speaker ? `${turn.speaker}: ` : "";
+      return `${time}${speaker}${turn.text}`;
+    })
+    .join("\n");
+}
+
+export function speakersOf(turns: TranscriptTurn[]): string[] {
+  return Array.from(
+    new Set(turns.flatMap((turn) => (turn.speaker ? [turn.speaker] : [])))
+  );
+}
+
+// Template variables for a transcript (or one chunk of it). Without
+// detected speakers, or without a candidate, both fall back to the raw text.
+export function dialogVariables(
+  content: string,
+  turns: TranscriptTurn[]
+): { dialog: string; candidateTurns: string } {
+  if (turns.length === 0) return { dialog: content, candidateTurns: content };
+
+  const candidate = turns.filter((turn) => turn.candidate);
+  const dialog = formatTurns(turns);
+  return {
+    dialog,
+    candidateTurns: candidate.length > 0 ? formatTurns(candidate) : dialog,
+  };
+}
@@ -0,0 +1,187 @@
+// src/services/StructuredOutput.ts - JSON Schema output parsing and validation
+import Ajv, { ValidateFunction } from "ajv";
+
+export class StructuredOutputError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Structured output invalid: ${errors.join("; ")}`);
+    this.name = "StructuredOutputError";
+    this.errors = errors;
+  }
+}
+
+// A JSON Schema (or one of its subschemas) as sent by the caller; keywords
+// are narrowed where they are read
+export type JsonSchema = Record<string, unknown>;
+
+// The part of Gemini's OpenAPI schema that toGeminiSchema produces
+export interface GeminiSchema {
+  type?: string;
+  description?: string;
+  nullable?: boolean;
+  format?: string;
+  enum?: string[];
+  properties?: Record<string, GeminiSchema>;
+  required?: string[];
+  items?: GeminiSchema;
+}
+
+function isJsonSchema(value: unknown): value is JsonSchema {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators = new WeakMap<object, ValidateFunction>();
+
+// Ajv only knows draft-07 out of the box; the dialect marker is dropped so
+// schemas written against newer drafts still compile
+function getValidator(schema: object): ValidateFunction {
+  let validate = validators.get(schema);
+  if (!validate) {
+    const { $schema, ...rest } = schema as Record<string, unknown>;
+    validate = ajv.compile(rest);
+    validators.set(schema, validate);
+  }
+  return validate;
+}
+
+// Returns an error message when the schema cannot be used for a batch.
+// Provider structured-output modes all require an object at the root.
+export function checkOutputSchema(schema: unknown): string | null {
+  if (!isJsonSchema(schema)) {
+    return "outputSchema must be a JSON Schema object";
+  }
+  if (schema.type !== "object") {
+    return 'outputSchema must describe an object (type: "object")';
+  }
+  try {
+    getValidator(schema);
+  } catch (error) {
+    return `outputSchema is not a valid JSON Schema: ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+  }
+  return null;
+}
+
+// Models sometimes wrap JSON in code fences, add prose around it or leave
+// trailing commas; each repair is tried in turn before giving up
+function repairCandidates(text: string): string[] {
+  const trimmed = text.trim();
+  const candidates = [trimmed];
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  if (start !== -1 && end > start) {
+    candidates.push(trimmed.slice(start, end + 1));
+  }
+
+  for (const candidate of [...candidates]) {
+    candidates.push(candidate.replace(/,\s*([}\]])/g, "$1"));
+  }
+
+  return candidates;
+}
+
+// Parse (repairing if needed) and validate a model response against the schema
+export function parseStructuredOutput(text: string, schema: object): unknown {
+  const validate = getValidator(schema);
+  let validationErrors: string[] | null = null;
+
+  for (const candidate of repairCandidates(text)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(candidate);
+    } catch {
+      continue;
+    }
+
+    if (validate(parsed)) return parsed;
+
+    validationErrors =
+      validationErrors ||
+      (validate.errors || []).map(
+        (e) => `${e.instancePath || "/"} ${e.message || "is invalid"}`
+      );
+  }
+
+  throw new StructuredOutputError(
+    validationErrors || ["Response is not valid JSON"]
+  );
+}
+
+// Gemini's responseSchema is an OpenAPI subset: single types, no
+// additionalProperties/$ref/combinators, and string enums need format "enum"
+export function toGeminiSchema(schema: JsonSchema): GeminiSchema {
+  let type = typeof schema.type === "string" ? schema.type : undefined;
+  let nullable = schema.nullable === true;
+  if (Array.isArray(schema.type)) {
+    nullable = schema.type.includes("null");
+    type = schema.type.find(
+      (t): t is string => typeof t === "string" && t !== "null"
+    );
+  }
+
+  const result: GeminiSchema = { type };
+  if (typeof schema.description === "string") {
+    result.description = schema.description;
+  }
+  if (nullable) result.nullable = true;
+
+  if (Array.isArray(schema.enum)) {
+    result.type = "string";
+    result.format = "enum";
+    result.enum = schema.enum.map(String);
+  }
+
+  if (type === "object" && isJsonSchema(schema.properties)) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties)
+        .filter((entry): entry is [string, JsonSchema] =>
+          isJsonSchema(entry[1])
+        )
+        .map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    if (Array.isArray(schema.required)) {
+      result.required = schema.required.map(String);
+    }
+  }
+
+  if (type === "array" && isJsonSchema(schema.items)) {
+    result.items = toGeminiSchema(schema.items);
+  }
+
+  return result;
+}
+
+// Minimal value satisfying the schema's shape, used by the mock provider
+export function sampleFromSchema(schema: unknown): unknown {
+  if (!isJsonSchema(schema)) return null;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if (schema.const !== undefined) return schema.const;
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(
+          isJsonSchema(schema.properties) ? schema.properties : {}
+        ).map(([key, value]) => [key, sampleFromSchema(value)])
+      );
+    case "array":
+      return schema.items ? [sampleFromSchema(schema.items)] : [];
+    case "integer":
+    case "number":
+      return typeof schema.minimum === "number" ? schema.minimum : 7;
+    case "boolean":
+      return true;
+    case "null":
+      return null;
+    default:
+      return "mock";
+  }
+}
@@ -0,0 +1,343 @@
+// src/services/TranscriptParser.ts - Normalizes uploaded transcripts to plain text
+import fs from "fs";
+import path from "path";
+import mammoth from "mammoth";
+import pdfParse from "pdf-parse";
+import { TranscriptFormat } from "../types";
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  content: string;
+}
+
+// An uploaded file with either its parsed content or the reason it failed
+export interface ParsedUpload extends Partial<ParsedTranscript> {
+  file: Express.Multer.File;
+  error?: string;
+}
+
+export class TranscriptParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptParseError";
+  }
+}
+
+// One spoken segment; consecutive segments by the same speaker are merged
+interface Segment {
+  start?: number; // Seconds from the start of the recording
+  speaker?: string;
+  text: string;
+}
+
+const EXTENSION_FORMATS: Record<string, TranscriptFormat> = {
+  ".txt": "txt",
+  ".vtt": "vtt",
+  ".srt": "srt",
+  ".docx": "docx",
+  ".pdf": "pdf",
+  ".json": "json",
+};
+
+const MIME_FORMATS: Record<string, TranscriptFormat> = {
+  "text/plain": "txt",
+  "text/vtt": "vtt",
+  "application/x-subrip": "srt",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "application/pdf": "pdf",
+  "application/json": "json",
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+export const UNSUPPORTED_FORMAT_ERROR = `Unsupported file type (supported: ${SUPPORTED_EXTENSIONS.join(", ")})`;
+
+// The extension wins over the mimetype, which browsers often guess wrongly
+// (e.g. .vtt and .srt sent as application/octet-stream)
+export function detectFormat(
+  filename: string,
+  mimetype?: string
+): TranscriptFormat | undefined {
+  const extension = path.extname(filename).toLowerCase();
+  return (
+    EXTENSION_FORMATS[extension] ||
+    (mimetype ? MIME_FORMATS[mimetype] : undefined)
+  );
+}
+
+export async function parseTranscript(
+  file: Express.Multer.File
+): Promise<ParsedTranscript> {
+  const format = detectFormat(file.originalname, file.mimetype);
+  if (!format) {
+    throw new TranscriptParseError(UNSUPPORTED_FORMAT_ERROR);
+  }
+
+  const content = (await parseContent(format, file.path)).trim();
+  if (!content) {
+    throw new TranscriptParseError("File contains no transcript text");
+  }
+  return { format, content };
+}
+
+// A file that cannot be parsed is reported on its own instead of failing
+// the whole upload
+export function parseUploads(
+  files: Express.Multer.File[]
+): Promise<ParsedUpload[]> {
+  return Promise.all(
+    files.map(async (file) => {
+      try {
+        return { file, ...(await parseTranscript(file)) };
+      } catch (error) {
+        return { file, error: errorMessage(error) };
+      }
+    })
+  );
+}
+
+async function parseContent(
+  format: TranscriptFormat,
+  filePath: string
+): Promise<string> {
+  switch (format) {
+    case "docx": {
+      try {
+        const { value } = await mammoth.extractRawText({ path: filePath });
+        return value;
+      } catch (error) {
+        throw new TranscriptParseError(
+          `Invalid DOCX file: ${errorMessage(error)}`
+        );
+      }
+    }
+    case "pdf": {
+      try {
+        const { text } = await pdfParse(await fs.promises.readFile(filePath));
+        return text;
+      } catch (error) {
+        throw new TranscriptParseError(
+          `Invalid PDF file: ${errorMessage(error)}`
+        );
+      }
+    }
+  }
+
+  const text = (await fs.promises.readFile(filePath, "utf-8")).replace(
+    /^\uFEFF/,
+    ""
+  );
+  switch (format) {
+    case "vtt":
+      return formatSegments(parseVtt(text));
+    case "srt":
+      return formatSegments(parseSrt(text));
+    case "json":
+      return parseJsonTranscript(text);
+    default:
+      return text;
+  }
+}
+
+// WebVTT: a "WEBVTT" header, then cues of an optional identifier, a
+// "00:00:01.000 --> 00:00:04.000" timing line and text, where the speaker is
+// given as a <v Name> voice tag
+function parseVtt(text: string): Segment[] {
+  const blocks = splitBlocks(text);
+  if (!/^WEBVTT/.test(blocks[0] || "")) {
+    throw new TranscriptParseError(
+      "Invalid WebVTT file: missing WEBVTT header"
+    );
+  }
+
+  const segments: Segment[] = [];
+  for (const block of blocks.slice(1)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    // NOTE, STYLE and REGION blocks have no timing line
+    if (timingIndex === -1) continue;
+
+    const start = parseTimestamp(lines[timingIndex].split("-->")[0]);
+    const cue = lines.slice(timingIndex + 1).join(" ");
+    const voice = cue.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+    segments.push({
+      start,
+      ...(voice
+        ? { speaker: voice[1].trim(), text: stripTags(cue) }
+        : splitSpeaker(stripTags(cue))),
+    });
+  }
+  return segments;
+}
+
+// SRT: numbered cues with "00:00:01,000 --> 00:00:04,000" timing lines;
+// speakers, when present, are written as "Name:" in the text
+function parseSrt(text: string): Segment[] {
+  const segments: Segment[] = [];
+  for (const block of splitBlocks(text)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue;
+
+    const start = parseTimestamp(lines[timingIndex].split("-->")[0]);
+    segments.push({
+      start,
+      ...splitSpeaker(stripTags(lines.slice(timingIndex + 1).join(" "))),
+    });
+  }
+
+  if (segments.length === 0) {
+    throw new TranscriptParseError("Invalid SRT file: no subtitle cues found");
+  }
+  return segments;
+}
+
+// Zoom, Otter and similar exports differ in naming but share a shape: a list
+// of segments, each with a speaker, some text and a start time
+function parseJsonTranscript(text: string): string {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TranscriptParseError("Invalid JSON file");
+  }
+
+  if (typeof data?.transcript === "string") return data.transcript;
+
+  const list = Array.isArray(data)
+    ? data
+    : [
+        "segments",
+        "timeline",
+        "transcript",
+        "utterances",
+        "monologues",
+        "results",
+      ]
+        .map((key) => data?.[key])
+        .find(Array.isArray);
+  if (!list) {
+    throw new TranscriptParseError(
+      "Unrecognized JSON transcript: expected a list of segments"
+    );
+  }
+
+  return formatSegments(
+    list
+      .map((item: any): Segment => ({
+        start: parseTimestamp(
+          item?.start ??
+            item?.start_time ??
+            item?.startTime ??
+            item?.ts ??
+            item?.timestamp
+        ),
+        speaker: jsonSpeaker(item),
+        text: jsonText(item),
+      }))
+      .filter((segment: Segment) => segment.text)
+  );
+}
+
+function jsonSpeaker(item: any): string | undefined {
+  const speaker =
+    item?.speaker_name ??
+    item?.speakerName ??
+    item?.speaker?.name ??
+    item?.speaker ??
+    item?.users?.[0]?.username ??
+    item?.username ??
+    item?.name;
+  return speaker === undefined || speaker === null || speaker === ""
+    ? undefined
+    : String(speaker);
+}
+
+function jsonText(item: any): string {
+  if (typeof item === "string") return item.trim();
+  const text = item?.text ?? item?.transcript ?? item?.content;
+  if (typeof text === "string") return text.trim();
+  // Word-level exports (e.g. Otter "words", Rev "elements")
+  const words = item?.words ?? item?.elements;
+  if (Array.isArray(words)) {
+    return words
+      .map((word: any) =>
+        typeof word === "string" ? word : (word?.text ?? word?.value ?? "")
+      )
+      .join(" ")
+      .replace(/\s+([.,!?;:])/g, "$1")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+  return "";
+}
+
+// "[00:01:05] Name: text" lines, one per speaker turn
+function formatSegments(segments: Segment[]): string {
+  const merged: Segment[] = [];
+  for (const segment of segments) {
+    if (!segment.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && segment.speaker && last.speaker === segment.speaker) {
+      last.text += ` ${segment.text}`;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged
+    .map((segment) => {
+      const time =
+        segment.start === undefined ? "" : `[${formatTime(segment.start)}] `;
+      const speaker = segment.speaker ? `${segment.speaker}: ` : "";
+      return `${time}${speaker}${segment.text}`;
+    })
+    .join("\n");
+}
+
+function splitBlocks(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean);
+}
+
+function stripTags(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// "Name: text" with a short name; longer prefixes are treated as text
+function splitSpeaker(text: string): { speaker?: string; text: string } {
+  const match = text.match(/^([^:]{1,40}):\s+(.*)$/);
+  return match ? { speaker: match[1].trim(), text: match[2].trim() } : { text };
+}
+
+// Accepts seconds as a number or "hh:mm:ss.mmm" / "mm:ss,mmm" strings
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number") return isFinite(value) ? value : undefined;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+
+  const parts = value.trim().replace(",", ".").split(":").map(Number);
+  if (parts.some(isNaN)) return undefined;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function formatTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  return [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
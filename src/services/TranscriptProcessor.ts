@@ -1,64 +1,238 @@
 // src/services/TranscriptProcessor.ts
-import { OpenAI } from "openai";
-import Anthropic from "@anthropic-ai/sdk";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { apiConfig, config } from "../config";
+import { config } from "../config";
 import {
   TranscriptFile,
   BatchJob,
   JobConfig,
+  ModelTarget,
   TranscriptAnalysis,
   BatchProgress,
   MultiModelResults,
+  BatchComparison,
+  FileComparison,
+  Leaderboard,
+  BatchEvent,
+  BatchEventType,
+  WebhookDelivery,
+  RedactionAudit,
+  CostEstimate,
+  BudgetConfig,
+  RetrySelection,
+  RetriedFile,
+  ProviderError,
+  FileDetail,
 } from "../types";
+import {
+  AnalysisRequest,
+  ModelProvider,
+  ProviderRegistry,
+  createDefaultRegistry,
+} from "../providers";
+import { MockProvider } from "../providers/MockProvider";
+import { BatchStore, createBatchStore } from "./BatchStore";
+import { BatchEventLog } from "./BatchEvents";
+import { WebhookDispatcher } from "./WebhookDispatcher";
+import { buildComparison } from "./ConsensusReport";
+import { classifyError, withRetry } from "./RetryPolicy";
+import {
+  RenderedPrompt,
+  renderJudgePrompt,
+  renderPrompt,
+  renderReducePrompt,
+  transcriptVariables,
+} from "./PromptTemplate";
+import {
+  StructuredOutputError,
+  parseStructuredOutput,
+} from "./StructuredOutput";
+import { normalizeScore } from "./ConsensusReport";
+import { buildLeaderboard } from "./Leaderboard";
+import {
+  chunkText,
+  fitsContext,
+  groupByBudget,
+  transcriptBudget,
+} from "./Chunker";
+import { ParsedUpload } from "./TranscriptParser";
+import { normalizeTranscript, speakersOf } from "./SpeakerTurns";
+import {
+  providerView,
+  redactTranscript,
+  restorePlaceholders,
+  restoreValue,
+} from "./Redactor";
+import { RateLimiter, RateLimitState, estimateTokens } from "./RateLimiter";
+import { ResponseCache, cacheKey } from "./ResponseCache";
+import {
+  BudgetExceededError,
+  costOf,
+  emptyUsage,
+  exceededLimit,
+  recordCall,
+  sumUsage,
+} from "./Pricing";
 import { v4 as uuidv4 } from "uuid";
-import pLimit from "p-limit";
+import pLimit, { LimitFunction } from "p-limit";
 import fs from "fs";
 import path from "path";
 
+// Attempts, events and exports for the judge stage use this target id
+export const JUDGE_TARGET_ID = "judge";
+
+// Requested from the scoring model for the "model" score extraction method
+const SCORE_SCHEMA = {
+  type: "object",
+  properties: {
+    score: { type: "number", description: "Score from 0 to 10" },
+  },
+  required: ["score"],
+};
+
+// Expected size of a score extraction reply, for cost estimates
+const SCORE_OUTPUT_TOKENS = 20;
+
+function scoringPrompt(field: string): string {
+  return (
+    `Read the interview analysis below and extract the candidate's ` +
+    `"${field}" as a number from 0 to 10. ` +
+    `Reply with JSON only: {"score": <number>}.`
+  );
+}
+
+// How a file's transcript is split for one provider
+interface ChunkPlan {
+  budget: number; // Transcript tokens per call
+  chunks: string[];
+}
+
 export class TranscriptProcessor {
-  private openai: OpenAI;
-  private anthropic: Anthropic;
-  private gemini: GoogleGenerativeAI;
+  private registry: ProviderRegistry;
   private jobs: Map<string, BatchJob> = new Map();
-  private limit: any;
+  private store: BatchStore;
+  private cache: ResponseCache;
+  // The running pass over each batch; a run only cleans up its own entry
+  private abortControllers: Map<string, AbortController> = new Map();
+  // Batches whose current run bypasses the response cache
+  private uncachedRuns: Set<string> = new Set();
+  private events = new BatchEventLog();
+  private webhooks = new WebhookDispatcher();
+  private limit: LimitFunction;
+  // Concurrency caps and rate limiters are per provider, shared by every
+  // target (model) and batch that uses it
+  private providerLimits: Map<string, LimitFunction> = new Map();
+  private rateLimiters: Map<string, RateLimiter> = new Map();
 
-  constructor() {
-    this.openai = new OpenAI({ apiKey: apiConfig.openai.apiKey });
-    this.anthropic = new Anthropic({ apiKey: apiConfig.anthropic.apiKey });
-    this.gemini = new GoogleGenerativeAI(apiConfig.gemini.apiKey);
+  constructor(
+    store: BatchStore = createBatchStore(),
+    registry: ProviderRegistry = createDefaultRegistry(),
+    cache: ResponseCache = new ResponseCache()
+  ) {
+    this.store = store;
+    this.cache = cache;
+    this.registry = registry;
     this.limit = pLimit(config.concurrent.processing);
+
+    for (const provider of registry.list()) {
+      this.providerLimits.set(provider.name, pLimit(provider.concurrency));
+      this.rateLimiters.set(provider.name, new RateLimiter(provider.rateLimit));
+    }
   }
 
   async initialize(): Promise<void> {
     console.log("✅ TranscriptProcessor initialized");
-    console.log(`   • OpenAI: ${apiConfig.openai.defaultModel}`);
-    console.log(`   • Claude: ${apiConfig.anthropic.defaultModel}`);
-    console.log(`   • Gemini: ${apiConfig.gemini.defaultModel}`);
+    for (const provider of this.registry.list()) {
+      console.log(`   • ${provider.displayName}: ${provider.defaultModel}`);
+    }
+
+    await this.cache.initialize();
+    await this.restoreBatches();
+  }
+
+  // Reload persisted batches and resume any that were interrupted mid-processing
+  private async restoreBatches(): Promise<void> {
+    const batches = await this.store.load();
+    const interrupted: BatchJob[] = [];
+
+    for (const batch of batches) {
+      if (batch.status === "processing") {
+        this.resetInterruptedFiles(batch);
+        interrupted.push(batch);
+      }
+      this.jobs.set(batch.id, batch);
+    }
+
+    // Webhook deliveries cut short by a restart carry on where they stopped
+    for (const batch of batches) {
+      for (const delivery of batch.webhookDeliveries || []) {
+        if (delivery.status === "pending") {
+          this.webhooks.deliver(delivery, () => this.persist(batch));
+        }
+      }
+    }
+
+    if (batches.length > 0) {
+      console.log(`💾 Restored ${batches.length} batch(es) from storage`);
+    }
+
+    for (const batch of interrupted) {
+      console.log(`🔁 Resuming interrupted batch ${batch.id}`);
+      this.startProcessing(batch.id).catch((error) => {
+        console.error(`❌ Error resuming batch ${batch.id}:`, error);
+      });
+    }
+  }
+
+  // Files caught mid-flight by a restart go back to the queue
+  private resetInterruptedFiles(batch: BatchJob): void {
+    for (const file of batch.files) {
+      if (file.status === "processing") {
+        file.status = "pending";
+        batch.metrics.processing--;
+        batch.metrics.pending++;
+      }
+    }
+  }
+
+  private async persist(batch: BatchJob): Promise<void> {
+    try {
+      await this.store.save(batch);
+    } catch (error) {
+      console.error(`⚠️ Failed to persist batch ${batch.id}:`, error);
+    }
+  }
+
+  // Events carry a copy of the metrics so a replayed event shows the batch
+  // as it was when the event happened
+  private emit(
+    batch: BatchJob,
+    type: BatchEventType,
+    data: Record<string, unknown> = {}
+  ): void {
+    this.events.publish(batch.id, type, {
+      ...data,
+      status: data.status ?? batch.status,
+      metrics: structuredClone(batch.metrics),
+    });
+  }
+
+  // Tell dashboard streams and webhook receivers that a batch is done
+  private finishBatch(batch: BatchJob, error?: string): void {
+    this.emit(batch, "batch-finished", error ? { error } : {});
+    this.webhooks.dispatch(batch, () => this.persist(batch), error);
   }
 
   // Create a new processing batch
+  // Uploads that failed to parse are kept as failed files so they show up
+  // in the batch's progress and results
   async createBatch(
-    files: Express.Multer.File[],
+    uploads: ParsedUpload[],
     jobConfig: JobConfig
   ): Promise<string> {
     const batchId = uuidv4();
-
-    // Read transcript content from files
-    const transcriptFiles: TranscriptFile[] = await Promise.all(
-      files.map(async (file) => {
-        const content = await fs.promises.readFile(file.path, "utf-8");
-        return {
-          id: uuidv4(),
-          originalFile: file,
-          content,
-          status: "pending" as const,
-          progress: { startTime: new Date() },
-          results: {},
-          retryCount: 0,
-        };
-      })
-    );
+    const transcriptFiles = this.buildFiles(uploads, jobConfig);
+    const failed = transcriptFiles.filter(
+      (file) => file.status === "failed"
+    ).length;
 
     const batch: BatchJob = {
       id: batchId,
@@ -67,13 +241,17 @@ export class TranscriptProcessor {
       jobConfig,
       metrics: {
         total: transcriptFiles.length,
-        pending: transcriptFiles.length,
+        pending: transcriptFiles.length - failed,
         processing: 0,
         completed: 0,
-        failed: 0,
-        openaiComplete: 0,
-        claudeComplete: 0,
-        geminiComplete: 0,
+        failed,
+        skipped: 0,
+        modelsComplete: Object.fromEntries(
+          jobConfig.models.map((target) => [target.id, 0])
+        ),
+        judged: 0,
+        usage: emptyUsage(),
+        cacheHits: 0,
         timing: {
           elapsedMs: 0,
         },
@@ -82,6 +260,7 @@ export class TranscriptProcessor {
     };
 
     this.jobs.set(batchId, batch);
+    await this.persist(batch);
 
     console.log(
       `📦 Created batch ${batchId} with ${transcriptFiles.length} transcript files`
@@ -90,7 +269,199 @@ export class TranscriptProcessor {
     return batchId;
   }
 
-  // Start processing with all three models
+  // Turn parsed uploads into batch files: speaker turns, candidate and, when
+  // the batch redacts PII, the provider-safe copies
+  private buildFiles(
+    uploads: ParsedUpload[],
+    jobConfig: JobConfig
+  ): TranscriptFile[] {
+    const transcriptFiles: TranscriptFile[] = uploads.map((upload) => ({
+      id: uuidv4(),
+      originalFile: upload.file,
+      format: upload.format,
+      content: upload.content,
+      ...(upload.content !== undefined
+        ? normalizeTranscript(upload.content, jobConfig.candidateSpeaker)
+        : {}),
+      status: upload.error ? "failed" : "pending",
+      progress: { startTime: new Date() },
+      results: {},
+      error: upload.error,
+      retryCount: 0,
+      attempts: [],
+      validationErrors: [],
+    }));
+    // A configured candidate that matches no speaker falls back to the
+    // full dialog for {{candidateTurns}}
+    if (jobConfig.candidateSpeaker) {
+      for (const file of transcriptFiles) {
+        if (file.turns?.length && !file.candidateSpeaker) {
+          console.warn(
+            `⚠️ Candidate speaker "${jobConfig.candidateSpeaker}" not found in ${file.originalFile.originalname}`
+          );
+        }
+      }
+    }
+
+    // Redacted once up front; providers only ever see the redacted copies
+    if (jobConfig.redaction) {
+      for (const file of transcriptFiles) {
+        if (file.content === undefined) continue;
+        file.redaction = redactTranscript(file, jobConfig.redaction);
+        console.log(
+          `🔒 Redacted ${file.redaction.audit.length} value(s) in ${file.originalFile.originalname}`
+        );
+      }
+    }
+
+    return transcriptFiles;
+  }
+
+  // Expected tokens and cost of running a batch, without calling any
+  // provider. Each call is assumed to produce estimatedOutputTokens (capped
+  // by the provider's output limit); chunked transcripts include the map and
+  // reduce calls, and the judge and model scoring stages are included when
+  // configured.
+  estimateBatch(uploads: ParsedUpload[], jobConfig: JobConfig): CostEstimate {
+    const unpriced = new Set<string>();
+    const files = this.buildFiles(uploads, jobConfig)
+      .filter((file) => file.status !== "failed")
+      .map((file) => {
+        const usage = emptyUsage();
+        let chunks = 1;
+        const estimate = (
+          key: string,
+          provider: ModelProvider,
+          model: string,
+          inputTokens: number,
+          outputTokens: number
+        ) => {
+          const cost = costOf(provider.name, model, inputTokens, outputTokens);
+          if (cost === undefined) unpriced.add(`${provider.name}/${model}`);
+          recordCall(usage, key, inputTokens, outputTokens, cost);
+        };
+
+        const view = providerView(file);
+        const scoring = jobConfig.scoring;
+        const scoringTarget: ModelTarget | undefined =
+          scoring?.method === "model" && scoring.provider
+            ? {
+                id: "score",
+                provider: scoring.provider,
+                model: scoring.model || "",
+              }
+            : undefined;
+        const estimateScoring = (targetId: string, analysisTokens: number) => {
+          if (!scoringTarget) return;
+          const provider = this.resolveProvider(jobConfig, scoringTarget);
+          estimate(
+            `score-${targetId}`,
+            provider,
+            scoringTarget.model || provider.defaultModel,
+            estimateTokens(scoringPrompt(scoring!.field)) + analysisTokens,
+            SCORE_OUTPUT_TOKENS
+          );
+        };
+
+        for (const target of jobConfig.models) {
+          const provider = this.resolveProvider(jobConfig, target);
+          const output = this.expectedOutput(provider);
+          const plan = this.planChunks(jobConfig, file, provider);
+          chunks = Math.max(chunks, plan.chunks.length);
+          const call = (prompt: RenderedPrompt) =>
+            estimate(
+              target.id,
+              provider,
+              target.model,
+              estimateTokens(prompt.system + prompt.user),
+              output
+            );
+
+          if (plan.chunks.length === 1) {
+            call(renderPrompt(jobConfig, view));
+          } else {
+            for (const chunk of plan.chunks) {
+              call(
+                renderPrompt(jobConfig, view, transcriptVariables(view, chunk))
+              );
+            }
+            // Reduce rounds over part analyses of the expected size
+            let parts = plan.chunks.map(() => " ".repeat(output * 4));
+            for (;;) {
+              const groups = groupByBudget(parts, plan.budget);
+              if (groups.length === 1 || groups.length === parts.length) {
+                call(renderReducePrompt(jobConfig, view, parts));
+                break;
+              }
+              for (const group of groups) {
+                call(renderReducePrompt(jobConfig, view, group));
+              }
+              parts = groups.map(() => " ".repeat(output * 4));
+            }
+          }
+          estimateScoring(target.id, output);
+        }
+
+        if (jobConfig.judge) {
+          const target: ModelTarget = {
+            id: JUDGE_TARGET_ID,
+            provider: jobConfig.judge.provider,
+            model: jobConfig.judge.model,
+          };
+          const provider = this.resolveProvider(jobConfig, target);
+          const { system, user } = this.planJudgePrompt(
+            jobConfig,
+            view,
+            provider
+          );
+          const analyses = jobConfig.models.reduce(
+            (total, model) =>
+              total +
+              this.expectedOutput(this.resolveProvider(jobConfig, model)),
+            0
+          );
+          estimate(
+            target.id,
+            provider,
+            target.model,
+            estimateTokens(system + user) + analyses,
+            this.expectedOutput(provider)
+          );
+          estimateScoring(target.id, this.expectedOutput(provider));
+        }
+
+        return {
+          filename: file.originalFile.originalname,
+          chunks,
+          ...usage,
+        };
+      });
+
+    const total = sumUsage(files);
+    const { budget } = jobConfig;
+    return {
+      models: jobConfig.models,
+      files,
+      total,
+      unpriced: [...unpriced],
+      withinBudget: budget ? !exceededLimit(total, budget) : undefined,
+      fileErrors: uploads
+        .filter((upload) => upload.error)
+        .map((upload) => ({
+          filename: upload.file.originalname,
+          error: upload.error!,
+        })),
+    };
+  }
+
+  private expectedOutput(provider: ModelProvider): number {
+    return Math.min(
+      provider.maxOutputTokens,
+      config.pricing.estimatedOutputTokens
+    );
+  }
+
+  // Start processing with every configured model target
   async startProcessing(batchId: string): Promise<void> {
     const batch = this.jobs.get(batchId);
     if (!batch) {
@@ -101,39 +472,247 @@ export class TranscriptProcessor {
       throw new Error("Job configuration not set");
     }
 
+    if (batch.status === "cancelled") {
+      console.log(
+        `🛑 Batch ${batchId} was cancelled before processing started`
+      );
+      return;
+    }
+
+    if (this.abortControllers.has(batchId)) {
+      throw new Error(`Batch ${batchId} is already running`);
+    }
+    // Registered before the first await so a cancel always reaches this run
+    const controller = new AbortController();
+    this.abortControllers.set(batchId, controller);
+    const { signal } = controller;
+    this.events.startRun(batchId);
+
+    // A budget stop is re-checked against the current caps
     batch.status = "processing";
-    batch.startedAt = new Date();
+    batch.budgetStop = undefined;
+    batch.startedAt = batch.startedAt || new Date();
+    await this.persist(batch);
 
     console.log(`🚀 Starting multi-model processing for batch ${batchId}`);
-    console.log(`📋 Processing strategy: Sequential `);
+    console.log(
+      `📋 Processing strategy: up to ${config.concurrent.processing} file(s) concurrently`
+    );
+
+    // Only pending files are picked up, so a resumed batch skips finished work
+    const queue = batch.files.filter((f) => f.status === "pending");
 
     try {
-      // Process files SEQUENTIALLY (one at a time) to avoid hitting Gemini quota
-      // Each file will be processed by all 3 models before moving to the next file
-      for (let i = 0; i < batch.files.length; i++) {
-        const file = batch.files[i];
-        await this.processTranscript(batchId, file);
-
-        // Add a small delay between files to help with API rate limits
-        if (i < batch.files.length - 1) {
-          console.log(`⏳ Waiting 2 seconds before next file...`);
-          await new Promise((resolve) => setTimeout(resolve, 2000));
-        }
+      // Files share the processor-wide limit; each provider call is further
+      // capped by its own limit so a slow provider can be throttled alone
+      await Promise.all(
+        queue.map((file) =>
+          this.limit(async () => {
+            this.enforceBudget(batch);
+            if (signal.aborted) return;
+            await this.processTranscript(batchId, file, signal);
+            await this.persist(batch);
+          })
+        )
+      );
+
+      if (signal.aborted && batch.budgetStop) {
+        await this.finishOverBudget(batch);
+        return;
+      }
+
+      if (signal.aborted) {
+        this.skipPendingFiles(batch);
+        await this.persist(batch);
+        this.finishBatch(batch);
+        console.log(`🛑 Batch ${batchId} cancelled`);
+        return;
       }
 
       batch.status = "completed";
       batch.completedAt = new Date();
+      await this.persist(batch);
+      this.finishBatch(batch);
       console.log(`✅ Batch ${batchId} completed successfully`);
     } catch (error) {
       batch.status = "failed";
+      await this.persist(batch);
+      this.finishBatch(
+        batch,
+        error instanceof Error ? error.message : String(error)
+      );
       console.error(`❌ Batch ${batchId} failed:`, error);
       throw error;
+    } finally {
+      if (this.abortControllers.get(batchId) === controller) {
+        this.abortControllers.delete(batchId);
+        this.uncachedRuns.delete(batchId);
+      }
+    }
+  }
+
+  // Once a cap is reached no further calls are made: calls in flight are
+  // aborted, so spend can only exceed the cap by calls that finished at the
+  // same time
+  private enforceBudget(batch: BatchJob): void {
+    const budget = batch.jobConfig?.budget;
+    if (!budget || batch.budgetStop) return;
+    const limit = exceededLimit(batch.metrics.usage, budget);
+    if (!limit) return;
+
+    const usage = batch.metrics.usage!;
+    batch.budgetStop = {
+      limit,
+      action: budget.onExceeded,
+      reachedAt: new Date(),
+      cost: usage.cost,
+      tokens: usage.inputTokens + usage.outputTokens,
+      unprocessed: [],
+    };
+    console.warn(
+      `💸 Batch ${batch.id} reached its ${limit} budget, ${budget.onExceeded === "pause" ? "pausing" : "stopping"}`
+    );
+    this.abortControllers.get(batch.id)?.abort(new BudgetExceededError(limit));
+  }
+
+  // "stop" ends the batch with the remaining files skipped; "pause" keeps
+  // them pending for resumeBatch
+  private async finishOverBudget(batch: BatchJob): Promise<void> {
+    const stop = batch.budgetStop!;
+    if (stop.action === "pause") {
+      batch.status = "paused";
+    } else {
+      batch.status = "cancelled";
+      batch.completedAt = new Date();
+      this.skipPendingFiles(batch);
+    }
+    stop.unprocessed = batch.files
+      .filter((file) => file.status === "pending" || file.status === "skipped")
+      .map((file) => ({
+        fileId: file.id,
+        filename: file.originalFile.originalname,
+      }));
+
+    await this.persist(batch);
+    this.finishBatch(batch, `Batch ${stop.limit} budget reached`);
+    console.log(
+      `💸 Batch ${batch.id} ${batch.status} by budget: ${stop.unprocessed.length} file(s) unprocessed`
+    );
+  }
+
+  // Continue a batch paused by its budget, optionally with new caps (null
+  // removes them)
+  resumeBatch(batchId: string, budget?: BudgetConfig | null): boolean {
+    const batch = this.jobs.get(batchId);
+    if (!batch?.jobConfig || batch.status !== "paused") return false;
+    if (this.abortControllers.has(batchId)) return false; // Still stopping
+
+    if (budget !== undefined) batch.jobConfig.budget = budget || undefined;
+    this.startProcessing(batchId).catch((error) => {
+      console.error(`❌ Error resuming batch ${batchId}:`, error);
+    });
+    return true;
+  }
+
+  // Re-run results of a finished (or paused) batch in place: the selected
+  // results are cleared, their files go back to pending and the batch is
+  // processed again. Files that could not be parsed are never retried.
+  // Returns the files and targets queued, or null for an unknown batch or
+  // one whose last run has not settled yet.
+  retryBatch(batchId: string, selection: RetrySelection): RetriedFile[] | null {
+    const batch = this.jobs.get(batchId);
+    if (!batch?.jobConfig || batch.status === "processing") return null;
+    // A cancelled run can still be finishing its in-flight calls
+    if (this.abortControllers.has(batchId)) return null;
+
+    const { models, judge } = batch.jobConfig;
+    const allTargets = [
+      ...models.map((target) => target.id),
+      ...(judge ? [JUDGE_TARGET_ID] : []),
+    ];
+    const explicit = !!(selection.fileIds || selection.targetIds);
+
+    const retried: RetriedFile[] = [];
+    for (const file of batch.files) {
+      if (file.content === undefined) continue;
+      if (selection.fileIds && !selection.fileIds.includes(file.id)) continue;
+
+      const targets = explicit
+        ? allTargets.filter(
+            (id) => !selection.targetIds || selection.targetIds.includes(id)
+          )
+        : allTargets.filter((id) =>
+            id === JUDGE_TARGET_ID ? !file.judge : !file.results[id]
+          );
+      if (targets.length === 0) continue;
+
+      this.requeueFile(batch, file, targets);
+      retried.push({
+        fileId: file.id,
+        filename: file.originalFile.originalname,
+        targets,
+      });
+    }
+    if (retried.length === 0) return retried;
+
+    // Cancelled batches are not started again otherwise
+    batch.status = "processing";
+    batch.completedAt = undefined;
+    // Cached responses would return the same answers for re-runs of
+    // successful calls, so explicit selections skip the cache by default
+    const useCache = selection.cache ?? !explicit;
+    if (!useCache) this.uncachedRuns.add(batchId);
+    console.log(`🔁 Retrying ${retried.length} file(s) in batch ${batchId}`);
+    this.startProcessing(batchId).catch((error) => {
+      console.error(`❌ Error retrying batch ${batchId}:`, error);
+    });
+    return retried;
+  }
+
+  // Clear the given results and put the file back in the queue. The judge
+  // is re-run whenever any model result changes.
+  private requeueFile(
+    batch: BatchJob,
+    file: TranscriptFile,
+    targets: string[]
+  ): void {
+    for (const id of targets) {
+      if (id === JUDGE_TARGET_ID || !file.results[id]) continue;
+      delete file.results[id];
+      batch.metrics.modelsComplete[id]--;
+    }
+    if (file.judge) {
+      file.judge = undefined;
+      batch.metrics.judged--;
+    }
+    if (file.scores) {
+      for (const id of [...targets, JUDGE_TARGET_ID]) delete file.scores[id];
+    }
+
+    if (file.status === "completed") batch.metrics.completed--;
+    if (file.status === "failed") batch.metrics.failed--;
+    if (file.status === "skipped") batch.metrics.skipped--;
+    if (file.status !== "pending") batch.metrics.pending++;
+    file.status = "pending";
+    file.error = undefined;
+    file.progress = { startTime: new Date() };
+  }
+
+  // Files that were never started are marked skipped when a batch is cancelled
+  private skipPendingFiles(batch: BatchJob): void {
+    for (const file of batch.files) {
+      if (file.status === "pending") {
+        file.status = "skipped";
+        batch.metrics.pending--;
+        batch.metrics.skipped++;
+      }
     }
   }
 
   private async processTranscript(
     batchId: string,
-    file: TranscriptFile
+    file: TranscriptFile,
+    signal: AbortSignal
   ): Promise<void> {
     const batch = this.jobs.get(batchId);
     if (!batch || !batch.jobConfig) return;
@@ -142,87 +721,135 @@ export class TranscriptProcessor {
     batch.metrics.processing++;
     batch.metrics.pending--;
 
-    const { jobDescription, prompt, models } = batch.jobConfig;
+    const { models } = batch.jobConfig;
+    const filename = file.originalFile.originalname;
 
-    console.log(`📝 Processing: ${file.originalFile.originalname}`);
+    console.log(`📝 Processing: ${filename}`);
+    this.emit(batch, "file-started", { fileId: file.id, filename });
 
-    // Process with all three models in parallel, handling each independently
-    const results = await Promise.allSettled([
-      this.processWithOpenAI(
-        file.content!,
-        jobDescription,
-        prompt,
-        models.openai,
-        file.originalFile.originalname
-      ),
-      this.processWithClaude(
-        file.content!,
-        jobDescription,
-        prompt,
-        models.claude,
-        file.originalFile.originalname
-      ),
-      this.processWithGemini(
-        file.content!,
-        jobDescription,
-        prompt,
-        models.gemini,
-        file.originalFile.originalname
+    // Rendered once so every provider receives exactly the same prompt
+    const prompt = renderPrompt(batch.jobConfig, providerView(file));
+
+    // Process with every model target in parallel, handling each independently
+    // and reporting each as soon as it settles. Targets that already have a
+    // result (a file interrupted by a budget pause) are not run again.
+    const pending = models.filter((target) => !file.results[target.id]);
+    // Scores a budget pause cut short are extracted for the kept results
+    const unscored = this.missingScores(batch, file);
+
+    // Errors describe the latest run of each target, its judge and scores
+    const rerun = new Set([
+      ...[...pending.map((target) => target.id), JUDGE_TARGET_ID].flatMap(
+        (id) => [id, `score-${id}`]
       ),
+      ...unscored.map((id) => `score-${id}`),
     ]);
+    file.errors = file.errors?.filter((e) => !rerun.has(e.target));
 
-    // Handle OpenAI result
-    if (results[0].status === "fulfilled") {
-      file.results.openai = results[0].value;
-      batch.metrics.openaiComplete++;
-      console.log(
-        `  ✅ OpenAI completed for ${file.originalFile.originalname}`
-      );
-    } else {
-      console.error(
-        `  ❌ OpenAI failed for ${file.originalFile.originalname}:`,
-        results[0].reason
-      );
-    }
+    await Promise.all(
+      unscored.map((id) =>
+        this.extractScoreWithModel(
+          batch,
+          file,
+          id,
+          id === JUDGE_TARGET_ID ? file.judge! : file.results[id],
+          signal
+        )
+      )
+    );
 
-    // Handle Claude result
-    if (results[1].status === "fulfilled") {
-      file.results.claude = results[1].value;
-      batch.metrics.claudeComplete++;
-      console.log(
-        `  ✅ Claude completed for ${file.originalFile.originalname}`
-      );
-    } else {
-      console.error(
-        `  ❌ Claude failed for ${file.originalFile.originalname}:`,
-        results[1].reason
-      );
-    }
+    await Promise.allSettled(
+      pending.map(async (target) => {
+        const provider = this.resolveProvider(batch.jobConfig!, target);
+        const startedAt = Date.now();
+        try {
+          const analysis = await this.analyzeTarget(
+            batch,
+            file,
+            target,
+            provider,
+            prompt,
+            signal
+          );
 
-    // Handle Gemini result
-    if (results[2].status === "fulfilled") {
-      file.results.gemini = results[2].value;
-      batch.metrics.geminiComplete++;
-      console.log(
-        `  ✅ Gemini completed for ${file.originalFile.originalname}`
-      );
-    } else {
-      console.error(
-        `  ❌ Gemini failed for ${file.originalFile.originalname}:`,
-        results[2].reason
-      );
-    }
+          file.results[target.id] = analysis;
+          batch.metrics.modelsComplete[target.id]++;
+          await this.extractScoreWithModel(
+            batch,
+            file,
+            target.id,
+            analysis,
+            signal
+          );
+          console.log(
+            `  ✅ ${target.id} (${target.model}) completed for ${filename}`
+          );
+          this.emit(batch, "provider-completed", {
+            fileId: file.id,
+            filename,
+            target: target.id,
+            durationMs: Date.now() - startedAt,
+          });
+          return analysis;
+        } catch (error) {
+          console.error(
+            `  ❌ ${target.id} (${target.model}) failed for ${filename}:`,
+            error
+          );
+          // A cancelled or budget-stopped batch is not a provider failure
+          if (signal.aborted) throw error;
+          const record = this.recordError(file, target, provider, error);
+          this.emit(batch, "provider-failed", {
+            fileId: file.id,
+            filename,
+            target: target.id,
+            error: record.message,
+            errorClass: record.errorClass,
+            httpStatus: record.status,
+          });
+          throw error;
+        }
+      })
+    );
 
     // Determine overall status
-    const successCount = [results[0], results[1], results[2]].filter(
-      (r) => r.status === "fulfilled"
+    const successCount = models.filter(
+      (target) => file.results[target.id]
     ).length;
+    const pausedByBudget =
+      signal.aborted && batch.budgetStop?.action === "pause";
 
-    if (successCount > 0) {
+    if (
+      batch.jobConfig.judge &&
+      !file.judge &&
+      successCount > 0 &&
+      !signal.aborted
+    ) {
+      await this.runJudge(batch, file, signal);
+    }
+
+    // A paused file stays queued until its results, judge and scores are
+    // all in, so resumeBatch finishes whatever the pause cut short
+    const unfinished =
+      successCount < models.length ||
+      (!!batch.jobConfig.judge && !file.judge) ||
+      this.missingScores(batch, file).length > 0;
+
+    if (pausedByBudget && unfinished) {
+      file.status = "pending";
+      batch.metrics.pending++;
+      console.log(`⏸️ Paused ${filename} (budget reached)`);
+    } else if (successCount > 0) {
       file.status = "completed";
       batch.metrics.completed++;
       console.log(
-        `✅ Completed ${file.originalFile.originalname} (${successCount}/3 models succeeded)`
+        `✅ Completed ${file.originalFile.originalname} (${successCount}/${models.length} models succeeded)`
+      );
+    } else if (signal.aborted) {
+      file.status = "skipped";
+      batch.metrics.skipped++;
+      console.log(
+        `🛑 Skipped ${file.originalFile.originalname} (batch cancelled)`
       );
     } else {
       file.status = "failed";
@@ -237,140 +864,550 @@ export class TranscriptProcessor {
     file.progress.totalDuration =
       file.progress.processingEnd.getTime() - file.progress.startTime.getTime();
     batch.metrics.processing--;
+
+    this.emit(batch, "file-completed", {
+      fileId: file.id,
+      filename,
+      fileStatus: file.status,
+      error: file.error,
+    });
   }
 
-  private async processWithOpenAI(
-    content: string,
-    jobDescription: string,
-    prompt: string,
-    model: string,
-    filename: string
+  // Results (and the judge verdict) still without a model-extracted score
+  private missingScores(batch: BatchJob, file: TranscriptFile): string[] {
+    if (batch.jobConfig!.scoring?.method !== "model") return [];
+    return [
+      ...Object.keys(file.results),
+      ...(file.judge ? [JUDGE_TARGET_ID] : []),
+    ].filter((id) => file.scores?.[id] === undefined);
+  }
+
+  // Transcripts that do not fit the provider's context window are analysed
+  // in chunks (map) whose analyses are then combined (reduce)
+  private async analyzeTarget(
+    batch: BatchJob,
+    file: TranscriptFile,
+    target: ModelTarget,
+    provider: ModelProvider,
+    prompt: RenderedPrompt,
+    signal: AbortSignal
   ): Promise<TranscriptAnalysis> {
-    const startTime = Date.now();
-
-    // Only use the prompt, not the job description
-    const systemPrompt = prompt;
-
-    // Use max_completion_tokens for newer models (GPT-4o and later)
-    // Use max_tokens for older models
-    const isNewerModel =
-      model.includes("gpt-4o") ||
-      model.includes("gpt-5") ||
-      model.includes("o1") ||
-      model.includes("o3");
-
-    const completionParams: any = {
-      model: model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: `Analyze this transcript:\n\n${content}` },
-      ],
-    };
+    const jobConfig = batch.jobConfig!;
+    const { outputSchema } = jobConfig;
+    const view = providerView(file);
+    const filename = view.originalFile.originalname;
+    const { budget, chunks } = this.planChunks(jobConfig, file, provider);
 
-    // Add the appropriate token limit parameter based on model
-    if (isNewerModel) {
-      completionParams.max_completion_tokens = apiConfig.openai.maxTokens;
-    } else {
-      completionParams.max_tokens = apiConfig.openai.maxTokens;
+    if (chunks.length === 1) {
+      return this.analyzeOnce(
+        batch,
+        file,
+        target,
+        provider,
+        prompt,
+        outputSchema,
+        signal
+      );
     }
 
-    const completion = await this.openai.chat.completions.create(
-      completionParams
+    console.log(
+      `  ✂️ ${target.id}: ${file.originalFile.originalname} split into ${chunks.length} chunks of up to ~${budget} tokens`
     );
 
-    const analysis =
-      completion.choices[0]?.message?.content || "No analysis generated";
-    const processingTime = Date.now() - startTime;
+    const partials = await Promise.all(
+      chunks.map((chunk, i) =>
+        this.analyzeOnce(
+          batch,
+          file,
+          target,
+          provider,
+          renderPrompt(jobConfig, view, {
+            ...transcriptVariables(view, chunk),
+            filename: `${filename} (part ${i + 1} of ${chunks.length})`,
+          }),
+          undefined,
+          signal,
+          `chunk ${i + 1}/${chunks.length}`
+        )
+      )
+    );
 
-    return {
-      model: model,
-      filename: filename,
-      analysis: analysis,
-      metadata: {
-        tokens: completion.usage?.total_tokens,
-        processingTime: processingTime,
-      },
-      timestamp: new Date(),
-    };
+    // Combine part analyses; when they are too long to combine in one call,
+    // groups are combined first and the results combined again
+    let parts = partials.map((partial) => partial.analysis);
+    for (let round = 1; ; round++) {
+      const groups = groupByBudget(parts, budget);
+      if (groups.length === 1 || groups.length === parts.length) {
+        const combined = await this.analyzeOnce(
+          batch,
+          file,
+          target,
+          provider,
+          renderReducePrompt(jobConfig, view, parts),
+          outputSchema,
+          signal,
+          "reduce"
+        );
+        return {
+          ...combined,
+          metadata: { ...combined.metadata, chunks: chunks.length },
+        };
+      }
+
+      const reduced = await Promise.all(
+        groups.map((group, i) =>
+          this.analyzeOnce(
+            batch,
+            file,
+            target,
+            provider,
+            renderReducePrompt(jobConfig, view, group),
+            undefined,
+            signal,
+            `reduce ${round}.${i + 1}`
+          )
+        )
+      );
+      parts = reduced.map((result) => result.analysis);
+    }
+  }
+
+  // Chunks sized to what fits next to the rest of the prompt
+  private planChunks(
+    jobConfig: JobConfig,
+    file: TranscriptFile,
+    provider: ModelProvider
+  ): ChunkPlan {
+    const view = providerView(file);
+    const empty = renderPrompt(jobConfig, view, transcriptVariables(view, ""));
+    const budget = transcriptBudget(
+      provider,
+      estimateTokens(empty.system + empty.user)
+    );
+    return { budget, chunks: chunkText(view.content || "", budget) };
+  }
+
+  // The transcript goes to the judge only when it fits next to the analyses,
+  // the same way it would have to fit for a single analysis call. Analyses
+  // of a chunked transcript were combined from all its chunks already.
+  private planJudgePrompt(
+    jobConfig: JobConfig,
+    view: TranscriptFile,
+    provider: ModelProvider
+  ): RenderedPrompt {
+    const withoutTranscript = renderJudgePrompt(jobConfig, view, false);
+    const budget = transcriptBudget(
+      provider,
+      estimateTokens(withoutTranscript.system + withoutTranscript.user)
+    );
+    return estimateTokens(view.content || "") <= budget
+      ? renderJudgePrompt(jobConfig, view)
+      : withoutTranscript;
   }
 
-  private async processWithClaude(
-    content: string,
-    jobDescription: string,
-    prompt: string,
-    model: string,
-    filename: string
+  // One provider call (with retries) for a rendered prompt
+  private analyzeOnce(
+    batch: BatchJob,
+    file: TranscriptFile,
+    target: ModelTarget,
+    provider: ModelProvider,
+    prompt: RenderedPrompt,
+    schema: Record<string, unknown> | undefined,
+    signal: AbortSignal,
+    stage?: string
   ): Promise<TranscriptAnalysis> {
-    const startTime = Date.now();
-
-    // Only use the prompt, not the job description
-    const systemPrompt = prompt;
-
-    const message = await this.anthropic.messages.create({
-      model: model,
-      max_tokens: apiConfig.anthropic.maxTokens,
-      messages: [
-        {
-          role: "user",
-          content: `${systemPrompt}\n\nAnalyze this transcript:\n\n${content}`,
+    return this.cachedCall(batch, file, target, provider, prompt, schema, () =>
+      this.callWithRetry(
+        file,
+        target,
+        provider,
+        estimateTokens(prompt.system + prompt.user),
+        signal,
+        async (attemptSignal) => {
+          const analysis = await this.meteredAnalyze(
+            batch,
+            file,
+            target,
+            provider,
+            {
+              system: prompt.system,
+              user: prompt.user,
+              model: target.model,
+              filename: providerView(file).originalFile.originalname,
+              schema,
+              signal: attemptSignal,
+            }
+          );
+          return schema
+            ? this.applyOutputSchema(file, target, analysis, schema)
+            : analysis;
         },
-      ],
+        stage
+      )
+    );
+  }
+
+  // Identical calls (same transcript, rendered prompt, schema, provider and
+  // model) are answered from the response cache without touching the
+  // provider. Only responses that passed validation are stored. Mock
+  // providers are never cached, so simulated answers cannot be served to a
+  // live provider of the same name.
+  private async cachedCall(
+    batch: BatchJob,
+    file: TranscriptFile,
+    target: ModelTarget,
+    provider: ModelProvider,
+    prompt: RenderedPrompt,
+    schema: Record<string, unknown> | undefined,
+    call: () => Promise<TranscriptAnalysis>
+  ): Promise<TranscriptAnalysis> {
+    if (
+      !config.cache.enabled ||
+      batch.jobConfig?.cache === false ||
+      this.uncachedRuns.has(batch.id) ||
+      provider instanceof MockProvider
+    ) {
+      return call();
+    }
+
+    const view = providerView(file);
+    const model = target.model || provider.defaultModel;
+    const key = cacheKey({
+      transcript: view.content || "",
+      system: prompt.system,
+      user: prompt.user,
+      schema,
+      provider: provider.name,
+      model,
     });
 
-    const analysis =
-      message.content[0]?.type === "text"
-        ? message.content[0].text
-        : "No analysis generated";
-    const processingTime = Date.now() - startTime;
+    const hit = this.cache.get(key);
+    if (hit) {
+      batch.metrics.cacheHits = (batch.metrics.cacheHits || 0) + 1;
+      console.log(
+        `  🗃️ ${target.id}: cached response for ${file.originalFile.originalname}`
+      );
+      return {
+        ...hit,
+        filename: view.originalFile.originalname,
+        metadata: { ...hit.metadata, cost: 0, cached: true },
+      };
+    }
 
-    return {
-      model: model,
-      filename: filename,
-      analysis: analysis,
-      metadata: {
-        tokens: message.usage?.input_tokens
-          ? message.usage.input_tokens + (message.usage?.output_tokens || 0)
-          : undefined,
-        processingTime: processingTime,
-      },
-      timestamp: new Date(),
+    const analysis = await call();
+    this.cache.set(key, {
+      provider: provider.name,
+      model,
+      target: target.id,
+      filename: view.originalFile.originalname,
+      analysis,
+    });
+    return analysis;
+  }
+
+  // Merge the model analyses into one verdict. A failed judge call is logged
+  // but does not fail the file: the per-model results still stand.
+  private async runJudge(
+    batch: BatchJob,
+    file: TranscriptFile,
+    signal: AbortSignal
+  ): Promise<void> {
+    const jobConfig = batch.jobConfig!;
+    const target: ModelTarget = {
+      id: JUDGE_TARGET_ID,
+      provider: jobConfig.judge!.provider,
+      model: jobConfig.judge!.model,
     };
+    const provider = this.resolveProvider(jobConfig, target);
+    const view = providerView(file);
+    const filename = view.originalFile.originalname;
+    const { system, user } = this.planJudgePrompt(jobConfig, view, provider);
+    const startedAt = Date.now();
+
+    try {
+      if (!fitsContext(provider, estimateTokens(system + user))) {
+        throw new Error(
+          `Model analyses are too long for the judge model's context window`
+        );
+      }
+      file.judge = await this.cachedCall(
+        batch,
+        file,
+        target,
+        provider,
+        { system, user },
+        undefined,
+        () =>
+          this.callWithRetry(
+            file,
+            target,
+            provider,
+            estimateTokens(system + user),
+            signal,
+            (attemptSignal) =>
+              this.meteredAnalyze(batch, file, target, provider, {
+                system,
+                user,
+                model: target.model,
+                filename,
+                signal: attemptSignal,
+              })
+          )
+      );
+      batch.metrics.judged++;
+      await this.extractScoreWithModel(
+        batch,
+        file,
+        target.id,
+        file.judge,
+        signal
+      );
+      console.log(`  ⚖️ Judge (${target.model}) completed for ${filename}`);
+      this.emit(batch, "provider-completed", {
+        fileId: file.id,
+        filename,
+        target: target.id,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      console.error(
+        `  ❌ Judge (${target.model}) failed for ${filename}:`,
+        error
+      );
+      if (signal.aborted) return;
+      const record = this.recordError(file, target, provider, error);
+      this.emit(batch, "provider-failed", {
+        fileId: file.id,
+        filename,
+        target: target.id,
+        error: record.message,
+        errorClass: record.errorClass,
+        httpStatus: record.status,
+      });
+    }
   }
 
-  private async processWithGemini(
-    content: string,
-    jobDescription: string,
-    prompt: string,
-    model: string,
-    filename: string
-  ): Promise<TranscriptAnalysis> {
-    const startTime = Date.now();
+  // "model" scoring: a follow-up call reads the score out of an analysis.
+  // Failures leave the score empty on the leaderboard without failing the file.
+  private async extractScoreWithModel(
+    batch: BatchJob,
+    file: TranscriptFile,
+    targetId: string,
+    analysis: TranscriptAnalysis,
+    signal: AbortSignal
+  ): Promise<void> {
+    const scoring = batch.jobConfig!.scoring;
+    if (scoring?.method !== "model" || !scoring.provider) return;
 
-    // Only use the prompt, not the job description
-    const systemPrompt = prompt;
+    const target: ModelTarget = {
+      id: `score-${targetId}`,
+      provider: scoring.provider,
+      model: scoring.model || "",
+    };
+    const provider = this.resolveProvider(batch.jobConfig!, target);
+    const system = scoringPrompt(scoring.field);
 
-    const genModel = this.gemini.getGenerativeModel({ model: model });
+    try {
+      const result = await this.cachedCall(
+        batch,
+        file,
+        target,
+        provider,
+        { system, user: analysis.analysis },
+        SCORE_SCHEMA,
+        () =>
+          this.callWithRetry(
+            file,
+            target,
+            provider,
+            estimateTokens(system + analysis.analysis),
+            signal,
+            async (attemptSignal) => {
+              const response = await this.meteredAnalyze(
+                batch,
+                file,
+                target,
+                provider,
+                {
+                  system,
+                  user: analysis.analysis,
+                  model: target.model,
+                  filename: providerView(file).originalFile.originalname,
+                  schema: SCORE_SCHEMA,
+                  signal: attemptSignal,
+                }
+              );
+              return this.applyOutputSchema(
+                file,
+                target,
+                response,
+                SCORE_SCHEMA
+              );
+            }
+          )
+      );
+      const value = (result.structured as { score?: unknown }).score;
+      const score =
+        typeof value === "number" ? normalizeScore(value) : undefined;
+      if (score !== undefined) {
+        file.scores = { ...file.scores, [targetId]: score };
+      }
+    } catch (error) {
+      console.warn(
+        `  ⚠️ Score extraction failed for ${targetId} on ${file.originalFile.originalname}:`,
+        error instanceof Error ? error.message : error
+      );
+      if (!signal.aborted) this.recordError(file, target, provider, error);
+    }
+  }
 
-    const result = await genModel.generateContent([
-      systemPrompt,
-      `\n\nAnalyze this transcript:\n\n${content}`,
-    ]);
+  // Structured record of the error a call gave up with. SDK errors keep
+  // their class name; the stage is the one its last attempt ran.
+  private recordError(
+    file: TranscriptFile,
+    target: ModelTarget,
+    provider: ModelProvider,
+    error: unknown
+  ): ProviderError {
+    const attempts = file.attempts.filter((a) => a.target === target.id);
+    const { reason, status } = classifyError(error);
+    const record: ProviderError = {
+      target: target.id,
+      provider: provider.name,
+      model: target.model || provider.defaultModel,
+      stage: attempts[attempts.length - 1]?.stage,
+      errorClass:
+        error instanceof Error
+          ? error.name !== "Error"
+            ? error.name
+            : error.constructor.name
+          : typeof error,
+      reason,
+      status,
+      message: error instanceof Error ? error.message : String(error),
+      attempt: attempts.length,
+      timestamp: new Date(),
+    };
+    (file.errors ||= []).push(record);
+    return record;
+  }
 
-    const response = await result.response;
-    const analysis = response.text();
-    const processingTime = Date.now() - startTime;
+  // Every provider call goes through here so its tokens and cost are added
+  // to the file's usage, including responses later rejected by the schema.
+  // Providers that report no usage are counted with estimated tokens.
+  private async meteredAnalyze(
+    batch: BatchJob,
+    file: TranscriptFile,
+    target: ModelTarget,
+    provider: ModelProvider,
+    request: AnalysisRequest
+  ): Promise<TranscriptAnalysis> {
+    const analysis = await provider.analyze(request);
+    const inputTokens =
+      analysis.metadata?.inputTokens ??
+      estimateTokens(request.system + request.user);
+    const outputTokens =
+      analysis.metadata?.outputTokens ?? estimateTokens(analysis.analysis);
+    const cost = costOf(
+      provider.name,
+      request.model || provider.defaultModel,
+      inputTokens,
+      outputTokens
+    );
 
+    // Batches created before usage tracking start from their files' usage
+    batch.metrics.usage ||= sumUsage(batch.files.map((f) => f.usage));
+    file.usage ||= emptyUsage();
+    recordCall(batch.metrics.usage, target.id, inputTokens, outputTokens, cost);
+    recordCall(file.usage, target.id, inputTokens, outputTokens, cost);
+    this.enforceBudget(batch);
     return {
-      model: model,
-      filename: filename,
-      analysis: analysis,
-      metadata: {
-        processingTime: processingTime,
-      },
-      timestamp: new Date(),
+      ...analysis,
+      metadata: { ...analysis.metadata, inputTokens, outputTokens, cost },
     };
   }
 
+  // Parse and validate structured output; invalid responses are recorded on
+  // the file and rethrown so the retry policy asks the model again
+  private applyOutputSchema(
+    file: TranscriptFile,
+    target: ModelTarget,
+    analysis: TranscriptAnalysis,
+    schema: Record<string, unknown>
+  ): TranscriptAnalysis {
+    try {
+      const structured = parseStructuredOutput(analysis.analysis, schema);
+      return {
+        ...analysis,
+        analysis: JSON.stringify(structured, null, 2),
+        structured,
+      };
+    } catch (error) {
+      if (error instanceof StructuredOutputError) {
+        file.validationErrors.push({
+          target: target.id,
+          attempt:
+            file.attempts.filter((a) => a.target === target.id).length + 1,
+          errors: error.errors,
+          timestamp: new Date(),
+        });
+      }
+      throw error;
+    }
+  }
+
+  // Batches run in mock mode send every target to the offline mock provider,
+  // keeping the requested model names
+  private resolveProvider(
+    jobConfig: JobConfig,
+    target: ModelTarget
+  ): ModelProvider {
+    return this.registry.get(jobConfig.mock ? "mock" : target.provider);
+  }
+
+  // Apply the provider's concurrency cap, rate limit and the shared
+  // retry/timeout policy, recording every attempt on the file
+  private callWithRetry(
+    file: TranscriptFile,
+    target: ModelTarget,
+    provider: ModelProvider,
+    estimatedTokens: number,
+    signal: AbortSignal,
+    call: (attemptSignal: AbortSignal) => Promise<TranscriptAnalysis>,
+    stage?: string
+  ): Promise<TranscriptAnalysis> {
+    const rateLimiter = this.rateLimiters.get(provider.name)!;
+    const providerLimit = this.providerLimits.get(provider.name)!;
+
+    return providerLimit(() =>
+      withRetry(call, {
+        signal,
+        beforeAttempt: (attemptSignal) =>
+          rateLimiter.acquire(estimatedTokens, attemptSignal),
+        onAttempt: (result) => {
+          file.attempts.push({ target: target.id, stage, ...result });
+          if (result.attempt > 1) file.retryCount++;
+          if (result.retryAfterMs) rateLimiter.pause(result.retryAfterMs);
+          if (!result.success) {
+            console.warn(
+              `  ⚠️ ${target.id}${stage ? ` (${stage})` : ""} attempt ${result.attempt} failed for ${file.originalFile.originalname}` +
+                ` (${result.retryable ? "retryable" : "fatal"}): ${result.error}`
+            );
+          }
+        },
+      })
+    );
+  }
+
+  // Exact system and user messages the providers receive for a file
+  getPromptPreview(batchId: string, fileId: string): RenderedPrompt | null {
+    const batch = this.jobs.get(batchId);
+    const file = batch?.files.find((f) => f.id === fileId);
+    if (!batch?.jobConfig || !file) return null;
+
+    return renderPrompt(batch.jobConfig, providerView(file));
+  }
+
   // Get batch progress
   getBatchProgress(batchId: string): BatchProgress | null {
     const batch = this.jobs.get(batchId);
@@ -379,7 +1416,27 @@ export class TranscriptProcessor {
     return {
       batchId: batch.id,
       status: batch.status,
+      models: batch.jobConfig?.models || [],
+      promptRef: batch.jobConfig?.promptRef,
+      judge: batch.jobConfig?.judge && {
+        provider: batch.jobConfig.judge.provider,
+        model: batch.jobConfig.judge.model,
+      },
+      budget: batch.jobConfig?.budget,
+      budgetStop: batch.budgetStop,
       metrics: batch.metrics,
+      files: batch.files.map((f) => ({
+        id: f.id,
+        filename: f.originalFile.originalname,
+        status: f.status,
+        speakers: speakersOf(f.turns || []),
+        candidateSpeaker: f.candidateSpeaker,
+        usage: f.usage,
+        error: f.error,
+        failedTargets: Array.from(
+          new Set((f.errors || []).map((e) => e.target))
+        ),
+      })),
       currentFiles: {
         processing: batch.files
           .filter((f) => f.status === "processing")
@@ -388,22 +1445,154 @@ export class TranscriptProcessor {
     };
   }
 
-  // Get multi-model results for download
-  getMultiModelResults(batchId: string): MultiModelResults | null {
+  // Status, provider errors, attempts and usage of every file in a batch
+  getFileDetails(batchId: string): FileDetail[] | null {
+    const batch = this.jobs.get(batchId);
+    if (!batch) return null;
+
+    return batch.files.map((file) => ({
+      id: file.id,
+      filename: file.originalFile.originalname,
+      format: file.format,
+      status: file.status,
+      error: file.error,
+      completedTargets: [
+        ...Object.keys(file.results),
+        ...(file.judge ? [JUDGE_TARGET_ID] : []),
+      ],
+      errors: file.errors || [],
+      attempts: file.attempts,
+      retryCount: file.retryCount,
+      validationErrors: file.validationErrors,
+      usage: file.usage,
+      durationMs: file.progress.totalDuration,
+    }));
+  }
+
+  // Webhook deliveries made for a batch, oldest first
+  getWebhookDeliveries(batchId: string): WebhookDelivery[] | null {
     const batch = this.jobs.get(batchId);
     if (!batch) return null;
+    return batch.webhookDeliveries || [];
+  }
+
+  // Replay events after lastEventId and follow new ones; returns unsubscribe
+  subscribeToEvents(
+    batchId: string,
+    lastEventId: number | undefined,
+    listener: (event: BatchEvent) => void
+  ): () => void {
+    return this.events.subscribe(batchId, lastEventId, listener);
+  }
+
+  // Get multi-model results for download. Redacted values are put back
+  // unless the caller asks for the text as the providers saw it.
+  getMultiModelResults(
+    batchId: string,
+    keepRedacted = false
+  ): MultiModelResults | null {
+    const batch = this.jobs.get(batchId);
+    if (!batch) return null;
+
+    const restore = (
+      file: TranscriptFile,
+      analysis: TranscriptAnalysis
+    ): TranscriptAnalysis => {
+      const placeholders = file.redaction?.placeholders;
+      if (!placeholders || keepRedacted) return analysis;
+      return {
+        ...analysis,
+        analysis: restorePlaceholders(analysis.analysis, placeholders),
+        structured: restoreValue(analysis.structured, placeholders),
+      };
+    };
 
     return {
       batchId: batch.id,
+      models: batch.jobConfig?.models || [],
       files: batch.files.map((file) => ({
         filename: file.originalFile.originalname,
-        openai: file.results.openai,
-        claude: file.results.claude,
-        gemini: file.results.gemini,
+        results: Object.fromEntries(
+          Object.entries(file.results).map(([id, analysis]) => [
+            id,
+            restore(file, analysis),
+          ])
+        ),
+        judge: file.judge && restore(file, file.judge),
       })),
     };
   }
 
+  // What was redacted in each file of a batch
+  getRedactionAudit(batchId: string): RedactionAudit | null {
+    const batch = this.jobs.get(batchId);
+    if (!batch) return null;
+
+    return {
+      batchId: batch.id,
+      redaction: batch.jobConfig?.redaction,
+      files: batch.files.map((file) => ({
+        fileId: file.id,
+        filename: file.originalFile.originalname,
+        redactedFilename: file.redaction?.filename,
+        counts: (file.redaction?.audit || []).reduce<Record<string, number>>(
+          (counts, entry) => ({
+            ...counts,
+            [entry.type]: (counts[entry.type] || 0) + entry.occurrences,
+          }),
+          {}
+        ),
+        entries: file.redaction?.audit || [],
+      })),
+    };
+  }
+
+  // Consensus and disagreements across model targets, per file. Like the
+  // results, redacted values are put back unless keepRedacted is set.
+  getComparison(batchId: string, keepRedacted = false): BatchComparison | null {
+    const batch = this.jobs.get(batchId);
+    if (!batch) return null;
+
+    const comparison = buildComparison(batch);
+    if (keepRedacted) return comparison;
+
+    const placeholders = new Map(
+      batch.files.map((file) => [file.id, file.redaction?.placeholders])
+    );
+    return {
+      ...comparison,
+      files: comparison.files.map((file) => {
+        const mapping = placeholders.get(file.fileId);
+        return mapping ? (restoreValue(file, mapping) as FileComparison) : file;
+      }),
+    };
+  }
+
+  // Files ranked by score, per model and averaged
+  getLeaderboard(
+    batchId: string,
+    options: { sortBy?: string; field?: string; pattern?: string } = {}
+  ): Leaderboard | null {
+    const batch = this.jobs.get(batchId);
+    if (!batch) return null;
+    return buildLeaderboard(batch, options);
+  }
+
+  // Current token-bucket state for each provider
+  getRateLimitState(): Record<string, RateLimitState> {
+    return Object.fromEntries(
+      Array.from(this.rateLimiters, ([name, limiter]) => [
+        name,
+        limiter.getState(),
+      ])
+    );
+  }
+
+  // Registered provider adapters available to batches
+  getProviders(): ModelProvider[] {
+    return this.registry.list();
+  }
+
   // Get all batches
   getAllBatches(): BatchJob[] {
     return Array.from(this.jobs.values());
@@ -420,16 +1609,48 @@ export class TranscriptProcessor {
       return false;
     }
     batch.status = "cancelled";
+    batch.completedAt = new Date();
+    this.skipPendingFiles(batch);
+
+    // Abort in-flight provider calls; the processing loop finishes the rest
+    // and reports the batch as finished. A batch that never started is
+    // reported here instead.
+    const controller = this.abortControllers.get(batchId);
+    if (controller) {
+      controller.abort();
+    } else {
+      this.finishBatch(batch);
+    }
+    this.persist(batch);
     return true;
   }
 
   // Delete batch
   deleteBatch(batchId: string): boolean {
     const batch = this.jobs.get(batchId);
-    if (!batch || batch.status === "processing") {
+    if (
+      !batch ||
+      batch.status === "processing" ||
+      this.abortControllers.has(batchId)
+    ) {
       return false;
     }
     this.jobs.delete(batchId);
+    this.events.clear(batchId);
+    this.store.delete(batchId).catch((error) => {
+      console.error(`⚠️ Failed to remove stored batch ${batchId}:`, error);
+    });
+    this.removeUploads(batch);
     return true;
   }
+
+  // Uploaded files are kept for the batch's lifetime and removed with it
+  private removeUploads(batch: BatchJob): void {
+    for (const file of batch.files) {
+      const uploadPath = file.originalFile.path;
+      fs.promises.rm(uploadPath, { force: true }).catch((error) => {
+        console.warn(`⚠️ Could not remove upload ${uploadPath}:`, error);
+      });
+    }
+  }
 }
@@ -0,0 +1,249 @@
+// src/services/WebhookDispatcher.ts - Signed batch lifecycle notifications
+import crypto from "crypto";
+import dns from "dns";
+import net from "net";
+import { v4 as uuidv4 } from "uuid";
+import { WebhookConfig, webhookConfig } from "../config";
+import {
+  BatchJob,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookPayload,
+} from "../types";
+import { withRetry } from "./RetryPolicy";
+
+// Non-2xx receiver response; status and headers let the retry policy decide
+// whether to try again and honour Retry-After
+export class WebhookResponseError extends Error {
+  status: number;
+  headers: Headers;
+
+  constructor(status: number, headers: Headers) {
+    super(`Webhook receiver responded with HTTP ${status}`);
+    this.name = "WebhookResponseError";
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+// Receivers recompute HMAC-SHA256(secret, "<timestamp>.<body>") and compare it
+// with the X-Webhook-Signature header; the timestamp guards against replays
+export function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+// Loopback, private, link-local, multicast and other non-public ranges;
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// A callbackUrl comes from the API caller, so it must not point the server at
+// internal services: with WEBHOOK_ALLOWED_HOSTS set only those hosts are
+// accepted, otherwise every address the host resolves to must be public
+export async function checkCallbackUrl(
+  url: string,
+  options: WebhookConfig = webhookConfig
+): Promise<string | null> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  if (options.allowedHosts.length > 0) {
+    return options.allowedHosts.includes(hostname)
+      ? null
+      : `callbackUrl host ${hostname} is not in WEBHOOK_ALLOWED_HOSTS`;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    return `callbackUrl host ${hostname} could not be resolved`;
+  }
+  const blocked = addresses.some(({ address, family }) =>
+    BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  return blocked
+    ? "callbackUrl must not point to a private, loopback or link-local address"
+    : null;
+}
+
+const EVENTS: Partial<Record<BatchJob["status"], WebhookEvent>> = {
+  completed: "batch.completed",
+  failed: "batch.failed",
+  cancelled: "batch.cancelled",
+  paused: "batch.paused",
+};
+
+export class WebhookDispatcher {
+  private options: WebhookConfig;
+
+  constructor(options: WebhookConfig = webhookConfig) {
+    this.options = options;
+  }
+
+  // Record one delivery per destination on the batch and send them in the
+  // background; onUpdate runs whenever a delivery changes (e.g. to persist)
+  dispatch(
+    batch: BatchJob,
+    onUpdate: () => void,
+    error?: string
+  ): WebhookDelivery[] {
+    const event = EVENTS[batch.status];
+    const urls = Array.from(
+      new Set(
+        [...this.options.urls, batch.jobConfig?.callbackUrl].filter(
+          (url): url is string => !!url
+        )
+      )
+    );
+    if (!event || urls.length === 0) return [];
+
+    const payload: WebhookPayload = {
+      id: uuidv4(),
+      event,
+      batchId: batch.id,
+      timestamp: new Date(),
+      data: {
+        status: batch.status,
+        metrics: structuredClone(batch.metrics),
+        models: batch.jobConfig?.models || [],
+        promptRef: batch.jobConfig?.promptRef,
+        startedAt: batch.startedAt,
+        completedAt: batch.completedAt,
+        error,
+        budgetStop: batch.budgetStop,
+      },
+    };
+
+    const deliveries: WebhookDelivery[] = urls.map((url) => ({
+      id: uuidv4(),
+      url,
+      event,
+      status: "pending",
+      payload,
+      attempts: [],
+      createdAt: new Date(),
+    }));
+
+    batch.webhookDeliveries = [
+      ...(batch.webhookDeliveries || []),
+      ...deliveries,
+    ];
+    onUpdate();
+
+    for (const delivery of deliveries) {
+      this.deliver(delivery, onUpdate);
+    }
+    return deliveries;
+  }
+
+  // Send a pending delivery, retrying failures with backoff. Also used to
+  // resume deliveries interrupted by a restart, continuing the attempt count.
+  async deliver(
+    delivery: WebhookDelivery,
+    onUpdate: () => void
+  ): Promise<void> {
+    const body = JSON.stringify(delivery.payload);
+    const previousAttempts = delivery.attempts.length;
+
+    try {
+      await withRetry((signal) => this.send(delivery, body, signal), {
+        maxAttempts: Math.max(1, this.options.maxAttempts - previousAttempts),
+        delay: this.options.retryDelay,
+        maxDelay: 5 * 60000,
+        timeout: this.options.timeout,
+        onAttempt: (result) => {
+          delivery.attempts.push({
+            attempt: previousAttempts + result.attempt,
+            startedAt: result.startedAt,
+            durationMs: result.durationMs,
+            success: result.success,
+            error: result.error,
+            status: result.status,
+          });
+          onUpdate();
+        },
+      });
+      delivery.status = "delivered";
+      console.log(`🔔 Webhook ${delivery.event} delivered to ${delivery.url}`);
+    } catch (error) {
+      delivery.status = "failed";
+      console.error(
+        `❌ Webhook ${delivery.event} to ${delivery.url} failed after ${delivery.attempts.length} attempt(s):`,
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    delivery.completedAt = new Date();
+    onUpdate();
+  }
+
+  private async send(
+    delivery: WebhookDelivery,
+    body: string,
+    signal: AbortSignal
+  ): Promise<void> {
+    // Checked again at delivery: the secret may be gone after a restart and
+    // the callback host may resolve differently by now
+    if (!this.options.secret) {
+      throw new Error("WEBHOOK_SECRET is not set; not sending unsigned");
+    }
+    if (!this.options.urls.includes(delivery.url)) {
+      const urlError = await checkCallbackUrl(delivery.url, this.options);
+      if (urlError) throw new Error(urlError);
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "TranscriptProcessor-Webhooks/1.0",
+      "X-Webhook-Id": delivery.payload.id,
+      "X-Webhook-Event": delivery.event,
+      "X-Webhook-Timestamp": timestamp,
+      "X-Webhook-Signature": signPayload(this.options.secret, timestamp, body),
+    };
+
+    // Redirects are not followed, so a receiver cannot bounce the request to
+    // an internal address
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers,
+      body,
+      signal,
+      redirect: "manual",
+    });
+    // The body is not needed; release the connection
+    await response.body?.cancel();
+
+    if (!response.ok) {
+      throw new WebhookResponseError(response.status, response.headers);
+    }
+  }
+}
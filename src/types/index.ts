@@ -1,42 +1,306 @@
 // src/types/index.ts - Transcript processing types
+// A file from an upload that could not be turned into a transcript
+export interface FileError {
+  filename: string;
+  error: string;
+}
+
+export type TranscriptFormat = "txt" | "vtt" | "srt" | "docx" | "pdf" | "json";
+
+// PII categories; "custom" covers the configured terms
+export type RedactionType =
+  "name" | "email" | "phone" | "address" | "url" | "custom";
+
+export interface RedactionConfig {
+  types: RedactionType[];
+  terms: string[]; // Always redacted (case-insensitive), e.g. employer names
+}
+
+export interface RedactionAuditEntry {
+  type: RedactionType;
+  placeholder: string; // e.g. "[NAME_1]"
+  value: string;
+  occurrences: number; // In the transcript
+}
+
+// Provider-safe copies of a file's text and the mapping to undo them. Kept
+// with the batch only; providers never see it.
+export interface TranscriptRedaction {
+  content: string;
+  turns: TranscriptTurn[];
+  candidateSpeaker?: string;
+  filename: string;
+  placeholders: Record<string, string>; // Placeholder -> original value
+  audit: RedactionAuditEntry[];
+}
+
+export interface RedactionAudit {
+  batchId: string;
+  redaction?: RedactionConfig; // Missing when the batch was not redacted
+  files: {
+    fileId: string;
+    filename: string;
+    redactedFilename?: string; // Filename as sent to providers
+    counts: Record<string, number>; // Occurrences per type
+    entries: RedactionAuditEntry[];
+  }[];
+}
+
+// One speaker turn of a normalized transcript
+export interface TranscriptTurn {
+  speaker?: string; // Missing for text before the first speaker label
+  timestamp?: string;
+  text: string;
+  candidate: boolean;
+}
+
 export interface TranscriptFile {
   id: string;
   originalFile: Express.Multer.File;
+  format?: TranscriptFormat; // Uploaded format; content is always plain text
   content?: string; // Transcript text content
-  status: "pending" | "processing" | "completed" | "failed";
+  turns?: TranscriptTurn[]; // Empty when no speaker labels were detected
+  candidateSpeaker?: string; // Detected or configured candidate label
+  redaction?: TranscriptRedaction; // Set when the batch redacts PII
+  status: "pending" | "processing" | "completed" | "failed" | "skipped";
   progress: {
     startTime: Date;
     processingEnd?: Date;
     totalDuration?: number;
   };
-  results: {
-    openai?: TranscriptAnalysis;
-    claude?: TranscriptAnalysis;
-    gemini?: TranscriptAnalysis;
-  };
+  results: Record<string, TranscriptAnalysis>; // Keyed by ModelTarget.id
   error?: string;
   retryCount: number;
+  attempts: ProviderAttempt[];
+  validationErrors: OutputValidationError[];
+  errors?: ProviderError[]; // Calls that gave up, one per target and run
+  judge?: TranscriptAnalysis; // Merged verdict from the judge stage
+  scores?: Record<string, number>; // Model-extracted scores, keyed by target id
+  usage?: UsageBreakdown; // Every provider call made for the file
+}
+
+// Tokens and cost of a set of provider calls. Cost is in USD and only covers
+// calls whose model has a price.
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  unpricedCalls: number;
+}
+
+// Keyed by the id of the calling target: a ModelTarget.id, "judge", or
+// "score-<id>" for model score extraction
+export interface UsageBreakdown extends UsageTotals {
+  byTarget: Record<string, UsageTotals>;
+}
+
+// Expected usage of a batch before it is started
+export interface CostEstimate {
+  models: ModelTarget[];
+  files: ({ filename: string; chunks: number } & UsageBreakdown)[];
+  total: UsageBreakdown;
+  unpriced: string[]; // "provider/model" pairs without a price
+  withinBudget?: boolean; // Set when the batch has a budget
+  fileErrors: FileError[];
+}
+
+// A response that did not match JobConfig.outputSchema even after repair
+export interface OutputValidationError {
+  target: string; // ModelTarget.id
+  attempt: number;
+  errors: string[];
+  timestamp: Date;
+}
+
+// A call that failed for good: the error its last attempt ended with
+export interface ProviderError {
+  target: string; // ModelTarget.id, "judge" or "score-<id>"
+  provider: string;
+  model: string;
+  stage?: string; // Chunk or reduce step that failed, for chunked transcripts
+  errorClass: string; // e.g. "ProviderTimeoutError", "RateLimitError"
+  reason: string; // Retry policy classification: "rate_limited", "auth", ...
+  status?: number; // HTTP status when the provider returned one
+  message: string;
+  attempt: number; // Attempts made before giving up
+  timestamp: Date;
+}
+
+// Everything recorded for one file of a batch
+export interface FileDetail {
+  id: string;
+  filename: string;
+  format?: TranscriptFormat;
+  status: TranscriptFile["status"];
+  error?: string;
+  completedTargets: string[]; // Targets with a result, including "judge"
+  errors: ProviderError[];
+  attempts: ProviderAttempt[];
+  retryCount: number;
+  validationErrors: OutputValidationError[];
+  usage?: UsageBreakdown;
+  durationMs?: number;
+}
+
+// One provider call attempt, as recorded by the retry policy
+export interface ProviderAttempt {
+  target: string; // ModelTarget.id
+  stage?: string; // "chunk 2/5" or "reduce" for chunked transcripts
+  attempt: number;
+  startedAt: Date;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  status?: number; // HTTP status when the provider returned one
+  retryable?: boolean;
+  retryAfterMs?: number;
 }
 
 export interface BatchJob {
   id: string;
-  status: "created" | "processing" | "completed" | "failed" | "cancelled";
+  status:
+    "created" | "processing" | "paused" | "completed" | "failed" | "cancelled";
   files: TranscriptFile[];
   jobConfig?: JobConfig;
   metrics: BatchMetrics;
+  webhookDeliveries?: WebhookDelivery[];
+  budgetStop?: BudgetStop; // Set when the batch reached its budget
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
 }
 
+// A provider/model pair a batch runs against. The same provider may appear
+// more than once (e.g. two OpenAI models side by side) under different ids.
+export interface ModelTarget {
+  id: string; // Unique within the batch; keys results, metrics and exports
+  provider: string; // Registered provider name (e.g. "openai")
+  model: string;
+}
+
 export interface JobConfig {
   jobDescription: string;
   prompt: string;
-  models: {
-    openai: string;
-    claude: string;
-    gemini: string;
-  };
+  models: ModelTarget[];
+  mock?: boolean; // Route every target to the offline mock provider
+  outputSchema?: Record<string, unknown>; // JSON Schema for structured output
+  // Prompt templates with {{prompt}}, {{jobDescription}}, {{transcript}},
+  // {{dialog}}, {{candidateTurns}} and {{filename}} placeholders; defaults
+  // apply when omitted
+  systemTemplate?: string;
+  userTemplate?: string;
+  candidateSpeaker?: string; // Candidate's speaker label; detected when omitted
+  redaction?: RedactionConfig; // PII redaction before provider calls; off when omitted
+  budget?: BudgetConfig; // Spend caps; unlimited when omitted
+  cache?: boolean; // false bypasses the response cache
+  promptRef?: PromptRef; // Set when the prompt came from the prompt library
+  callbackUrl?: string; // Webhook notified when the batch finishes
+  judge?: JudgeConfig;
+  scoring?: ScoringConfig;
+}
+
+// Caps on what a batch may spend, counted from provider usage. "stop" skips
+// the remaining files; "pause" keeps them pending until the batch is resumed.
+export interface BudgetConfig {
+  maxCost?: number; // USD
+  maxTokens?: number; // Input plus output tokens
+  onExceeded: "stop" | "pause";
+}
+
+export interface BudgetStop {
+  limit: "cost" | "tokens"; // The cap that was reached
+  action: BudgetConfig["onExceeded"];
+  reachedAt: Date;
+  cost: number; // Spend when the cap was reached
+  tokens: number;
+  unprocessed: { fileId: string; filename: string }[];
+}
+
+// What POST /batch/:batchId/retry re-runs. Without lists, every failed or
+// missing result is retried; lists select files and targets (ModelTarget ids
+// or "judge") to re-run even if they succeeded.
+export interface RetrySelection {
+  fileIds?: string[];
+  targetIds?: string[];
+  cache?: boolean; // Use the response cache; default: only when retrying failures
+}
+
+export interface RetriedFile {
+  fileId: string;
+  filename: string;
+  targets: string[];
+}
+
+// How a 0-10 score is read from each analysis for ranking. "regex" reads it
+// from the text (or the structured field); "model" asks a model to extract it
+// once the analysis is done.
+export interface ScoringConfig {
+  method: "regex" | "model";
+  field: string; // Score name, and the structured output field to read
+  pattern?: string; // Capture group 1 is the score, optional group 2 the scale
+  provider?: string; // Extraction model for the "model" method
+  model?: string;
+}
+
+// Optional final stage: one more model reads the transcript and every
+// target's analysis and writes a merged verdict
+export interface JudgeConfig {
+  provider: string;
+  model: string;
+  prompt: string;
+}
+
+// Identifies the saved prompt version a batch was started from
+export interface PromptRef {
+  id: string;
+  version: number;
+  name: string;
+}
+
+// The prompt fields a saved prompt version fixes for a batch
+export interface PromptContent {
+  jobDescription: string;
+  prompt: string;
+  systemTemplate?: string;
+  userTemplate?: string;
+}
+
+// Versions are immutable: editing a prompt appends a new version
+export interface PromptVersion extends PromptContent {
+  version: number;
+  note?: string;
+  createdAt: Date;
+}
+
+// A validated provider response, reused for identical calls. The id is the
+// hash of the transcript, rendered prompt, schema, provider and model.
+export interface CachedResponse {
+  id: string;
+  provider: string;
+  model: string;
+  target: string; // Target id of the call that stored it, e.g. "judge"
+  filename: string;
+  analysis: TranscriptAnalysis;
+  createdAt: Date;
+  hits: number;
+  lastHitAt?: Date;
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  savedCost: number; // USD not spent thanks to hits, for priced models
+  byModel: Record<string, { entries: number; hits: number }>; // "provider/model"
+}
+
+export interface SavedPrompt {
+  id: string;
+  name: string;
+  description?: string;
+  versions: PromptVersion[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface BatchMetrics {
@@ -45,9 +309,11 @@ export interface BatchMetrics {
   processing: number;
   completed: number;
   failed: number;
-  openaiComplete: number;
-  claudeComplete: number;
-  geminiComplete: number;
+  skipped: number; // Files never analysed because the batch was cancelled
+  modelsComplete: Record<string, number>; // Keyed by ModelTarget.id
+  judged: number; // Files with a judge verdict
+  usage?: UsageBreakdown; // Missing on batches created before usage tracking
+  cacheHits?: number; // Provider calls answered from the response cache
   timing: {
     elapsedMs: number;
     estimatedCompletionMs?: number;
@@ -58,9 +324,15 @@ export interface TranscriptAnalysis {
   model: string;
   filename: string;
   analysis: string;
+  structured?: unknown; // Parsed, schema-valid output when outputSchema is set
   metadata?: {
-    tokens?: number;
+    tokens?: number; // Input plus output
+    inputTokens?: number;
+    outputTokens?: number;
+    cost?: number; // USD, when the model has a price
+    cached?: boolean; // Served from the response cache (nothing was spent)
     processingTime?: number;
+    chunks?: number; // Set when the transcript was analysed in chunks
   };
   timestamp: Date;
 }
@@ -68,18 +340,151 @@ export interface TranscriptAnalysis {
 export interface BatchProgress {
   batchId: string;
   status: BatchJob["status"];
+  models: ModelTarget[];
+  promptRef?: PromptRef;
+  judge?: { provider: string; model: string };
+  budget?: BudgetConfig;
+  budgetStop?: BudgetStop;
   metrics: BatchMetrics;
+  files: {
+    id: string;
+    filename: string;
+    status: TranscriptFile["status"];
+    speakers: string[];
+    candidateSpeaker?: string;
+    usage?: UsageBreakdown;
+    error?: string;
+    failedTargets: string[]; // Targets with a ProviderError
+  }[];
   currentFiles: {
     processing: string[];
   };
 }
 
+export type BatchEventType =
+  | "file-started"
+  | "provider-completed"
+  | "provider-failed"
+  | "file-completed"
+  | "batch-finished";
+
+// Progress event streamed to the dashboard; ids increase per batch and are
+// sent as the SSE id so clients can resume with Last-Event-ID
+export interface BatchEvent {
+  id: number;
+  type: BatchEventType;
+  batchId: string;
+  timestamp: Date;
+  data: Record<string, unknown>;
+}
+
+export type WebhookEvent =
+  "batch.completed" | "batch.failed" | "batch.cancelled" | "batch.paused";
+
+// JSON body POSTed to webhook receivers; id is shared by every destination
+// so receivers can deduplicate retried deliveries
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  batchId: string;
+  timestamp: Date;
+  data: {
+    status: BatchJob["status"];
+    metrics: BatchMetrics;
+    models: ModelTarget[];
+    promptRef?: PromptRef;
+    startedAt?: Date;
+    completedAt?: Date;
+    error?: string;
+    budgetStop?: BudgetStop;
+  };
+}
+
+export interface WebhookAttempt {
+  attempt: number;
+  startedAt: Date;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  status?: number; // HTTP status returned by the receiver
+}
+
+// One payload sent to one URL, with every attempt made to deliver it
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  event: WebhookEvent;
+  status: "pending" | "delivered" | "failed";
+  payload: WebhookPayload;
+  attempts: WebhookAttempt[];
+  createdAt: Date;
+  completedAt?: Date;
+}
+
 export interface MultiModelResults {
   batchId: string;
+  models: ModelTarget[];
   files: {
     filename: string;
-    openai?: TranscriptAnalysis;
-    claude?: TranscriptAnalysis;
-    gemini?: TranscriptAnalysis;
+    results: Record<string, TranscriptAnalysis>;
+    judge?: TranscriptAnalysis;
   }[];
 }
+
+export interface LeaderboardEntry {
+  rank: number; // Equal sort scores share a rank
+  fileId: string;
+  filename: string;
+  scores: Record<string, number | null>; // Keyed by target id, plus "judge"
+  average: number | null; // Mean over model targets (judge excluded)
+}
+
+export interface Leaderboard {
+  batchId: string;
+  field: string;
+  sortBy: string; // "average", a target id or "judge"
+  columns: string[]; // Target ids in column order
+  entries: LeaderboardEntry[];
+}
+
+export type Recommendation = "strong_hire" | "hire" | "maybe" | "no_hire";
+
+// Signals read from one model's analysis of a file
+export interface AnalysisSignals {
+  recommendation?: Recommendation;
+  score?: number; // Normalised to 0-10
+  fields?: Record<string, string | number | boolean>; // Top-level structured values
+}
+
+export interface Disagreement {
+  field: string; // "recommendation", "score" or a structured output field
+  severity: "major" | "minor";
+  values: Record<string, unknown>; // Keyed by ModelTarget.id
+  detail: string;
+}
+
+export interface FileComparison {
+  fileId: string;
+  filename: string;
+  models: string[]; // Targets that produced a result
+  signals: Record<string, AnalysisSignals>;
+  consensus: {
+    recommendation?: Recommendation;
+    agreement?: number; // Share of models backing the consensus recommendation
+    averageScore?: number;
+    scoreRange?: [number, number];
+    summary: string;
+  };
+  disagreements: Disagreement[];
+}
+
+export interface BatchComparison {
+  batchId: string;
+  models: ModelTarget[];
+  files: FileComparison[];
+  summary: {
+    compared: number; // Files with results from at least two models
+    withDisagreements: number;
+    majorDisagreements: number;
+  };
+}
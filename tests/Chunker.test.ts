@@ -0,0 +1,87 @@
+// tests/Chunker.test.ts - Splitting long transcripts to fit a context window
+import { describe, expect, it } from "vitest";
+import { ModelProvider } from "../src/providers/ModelProvider";
+import {
+  chunkText,
+  fitsContext,
+  groupByBudget,
+  transcriptBudget,
+} from "../src/services/Chunker";
+import { estimateTokens } from "../src/services/RateLimiter";
+
+const provider = {
+  contextWindow: 10000,
+  maxOutputTokens: 2000,
+} as ModelProvider;
+
+// 40 characters, about 10 tokens, per speaker turn
+function turn(i: number): string {
+  return `Speaker ${String(i).padStart(2, "0")}: `.padEnd(39, "x") + "\n";
+}
+
+describe("Chunker", () => {
+  it("budgets the window left after the prompt and response, with a margin", () => {
+    expect(transcriptBudget(provider, 1000)).toBe(5950);
+    expect(transcriptBudget(provider, 20000)).toBe(256);
+    expect(fitsContext(provider, 6800)).toBe(true);
+    expect(fitsContext(provider, 6801)).toBe(false);
+  });
+
+  it("keeps text that fits in one chunk", () => {
+    expect(chunkText("Alice: Hi\nBob: Hello\n", 50, 10)).toEqual([
+      "Alice: Hi\nBob: Hello\n",
+    ]);
+  });
+
+  it("splits at turn boundaries and repeats the previous turn", () => {
+    const turns = Array.from({ length: 20 }, (_, i) => turn(i));
+    const chunks = chunkText(turns.join(""), 50, 10);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(50);
+      expect(chunk.endsWith("\n")).toBe(true);
+    }
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1].split(/(?<=\n)/);
+      expect(chunks[i].startsWith(previous[previous.length - 1])).toBe(true);
+    }
+    // Every turn is in some chunk, whole
+    for (const line of turns) {
+      expect(chunks.some((chunk) => chunk.includes(line))).toBe(true);
+    }
+  });
+
+  it("caps the overlap at a quarter of the chunk", () => {
+    const text = Array.from({ length: 20 }, (_, i) => turn(i)).join("");
+    const [first, second] = chunkText(text, 50, 1000);
+
+    const firstLines = first.split(/(?<=\n)/);
+    expect(second.startsWith(firstLines[firstLines.length - 1])).toBe(true);
+    expect(second.startsWith(firstLines[firstLines.length - 2])).toBe(false);
+  });
+
+  it("splits a turn longer than a chunk at sentence ends", () => {
+    const sentence = "This sentence is about fifteen tokens long overall.";
+    const text = `Candidate: ${Array(12).fill(sentence).join(" ")}`;
+    const chunks = chunkText(text, 40, 0);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(40);
+    }
+    expect(chunks.join("").replace(/\s+/g, " ").trim()).toBe(text);
+  });
+
+  it("groups texts within a budget, oversized ones on their own", () => {
+    const short = "x".repeat(40); // 10 tokens
+    const long = "x".repeat(400); // 100 tokens
+
+    expect(groupByBudget([short, short, short, long, short], 25)).toEqual([
+      [short, short],
+      [short],
+      [long],
+      [short],
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+// tests/LocalProvider.test.ts - OpenAI-compatible calls against a stub server
+import http from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { apiConfig } from "../src/config";
+import { LocalProvider } from "../src/providers/LocalProvider";
+import { classifyError } from "../src/services/RetryPolicy";
+
+interface Received {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+const COMPLETION = {
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 0,
+  model: "llama3.1",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content: "Strong hire. Score: 8/10" },
+      finish_reason: "stop",
+    },
+  ],
+  usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+};
+
+describe("LocalProvider", () => {
+  const original = { ...apiConfig.local };
+  const received: Received[] = [];
+  let status = 200;
+  let server: http.Server;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({
+          url: req.url,
+          headers: req.headers,
+          body: JSON.parse(body),
+        });
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify(
+            status === 200 ? COMPLETION : { error: { message: "Overloaded" } }
+          )
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    apiConfig.local.baseUrl = `http://127.0.0.1:${port}/v1`;
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    status = 200;
+    Object.assign(apiConfig.local, {
+      apiKey: original.apiKey,
+      authHeader: original.authHeader,
+    });
+  });
+
+  afterAll(() => {
+    server.close();
+    Object.assign(apiConfig.local, original);
+  });
+
+  it("sends a chat completion and reports the token usage", async () => {
+    const result = await new LocalProvider().analyze({
+      system: "You assess interviews.",
+      user: "Transcript: ...",
+      model: "llama3.1",
+      filename: "alice.txt",
+    });
+
+    expect(result).toMatchObject({
+      model: "llama3.1",
+      filename: "alice.txt",
+      analysis: "Strong hire. Score: 8/10",
+      metadata: { tokens: 150, inputTokens: 120, outputTokens: 30 },
+    });
+    const [{ url, body }] = received;
+    expect(url).toBe("/v1/chat/completions");
+    expect(body).toMatchObject({
+      model: "llama3.1",
+      max_tokens: apiConfig.local.maxTokens,
+      messages: [
+        { role: "system", content: "You assess interviews." },
+        { role: "user", content: "Transcript: ..." },
+      ],
+    });
+    expect(body.response_format).toBeUndefined();
+  });
+
+  it("asks for JSON Schema output when the batch has a schema", async () => {
+    const schema = {
+      type: "object",
+      properties: { score: { type: "number" } },
+    };
+
+    await new LocalProvider().analyze({
+      system: "",
+      user: "",
+      model: "llama3.1",
+      filename: "bob.txt",
+      schema,
+    });
+
+    expect(received[0].body.response_format).toEqual({
+      type: "json_schema",
+      json_schema: { name: "transcript_analysis", schema, strict: false },
+    });
+  });
+
+  it("sends the key in a custom auth header instead of a bearer token", async () => {
+    Object.assign(apiConfig.local, {
+      apiKey: "secret",
+      authHeader: "X-API-Key",
+    });
+
+    await new LocalProvider().analyze({
+      system: "",
+      user: "",
+      model: "llama3.1",
+      filename: "carol.txt",
+    });
+
+    expect(received[0].headers["x-api-key"]).toBe("secret");
+    expect(received[0].headers.authorization).toBeUndefined();
+  });
+
+  it("surfaces server errors as retryable", async () => {
+    status = 503;
+
+    const error = await new LocalProvider()
+      .analyze({
+        system: "",
+        user: "",
+        model: "llama3.1",
+        filename: "dave.txt",
+      })
+      .catch((error) => error);
+
+    expect(error.status).toBe(503);
+    expect(classifyError(error)).toMatchObject({
+      retryable: true,
+      reason: "server_error",
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// tests/RateLimiter.test.ts - Token buckets refilled per minute
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimiter } from "../src/services/RateLimiter";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("holds requests over the per-minute budget until the bucket refills", async () => {
+    const limiter = new RateLimiter({ rpm: 2, tpm: 0 });
+    await limiter.acquire(10);
+    await limiter.acquire(10);
+
+    let acquired = false;
+    const third = limiter.acquire(10).then(() => {
+      acquired = true;
+    });
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(acquired).toBe(false);
+    expect(limiter.getState()).toMatchObject({ waiting: 1 });
+
+    // One request refills every 30 seconds at 2 rpm
+    await vi.advanceTimersByTimeAsync(1000);
+    await third;
+    expect(acquired).toBe(true);
+    expect(limiter.getState()).toMatchObject({
+      availableRequests: 0,
+      availableTokens: null,
+      waiting: 0,
+    });
+  });
+
+  it("lets a request larger than the token bucket through once it is full", async () => {
+    const limiter = new RateLimiter({ rpm: 0, tpm: 1000 });
+
+    await limiter.acquire(5000);
+
+    expect(limiter.getState().availableTokens).toBe(0);
+  });
+
+  it("serves callers in arrival order", async () => {
+    const limiter = new RateLimiter({ rpm: 0, tpm: 1000 });
+    await limiter.acquire(1000);
+
+    const order: string[] = [];
+    const large = limiter.acquire(600).then(() => order.push("large"));
+    const small = limiter.acquire(10).then(() => order.push("small"));
+    await vi.advanceTimersByTimeAsync(60000);
+    await Promise.all([large, small]);
+
+    expect(order).toEqual(["large", "small"]);
+  });
+
+  it("pauses every caller after a Retry-After", async () => {
+    const limiter = new RateLimiter({ rpm: 0, tpm: 0 });
+    limiter.pause(5000);
+
+    let acquired = false;
+    const waiting = limiter.acquire(1).then(() => {
+      acquired = true;
+    });
+    expect(limiter.getState().pausedUntil).toBeDefined();
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(acquired).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await waiting;
+    expect(acquired).toBe(true);
+  });
+
+  it("rejects a wait whose signal is aborted", async () => {
+    const limiter = new RateLimiter({ rpm: 1, tpm: 0 });
+    await limiter.acquire(1);
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire(1, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow("Rate limiter wait aborted");
+    expect(limiter.getState().waiting).toBe(0);
+  });
+});
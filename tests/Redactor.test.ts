@@ -0,0 +1,91 @@
+// tests/Redactor.test.ts - PII placeholders and putting the values back
+import { describe, expect, it } from "vitest";
+import {
+  redactTranscript,
+  restorePlaceholders,
+  restoreValue,
+} from "../src/services/Redactor";
+import { TranscriptFile } from "../src/types";
+
+const TRANSCRIPT = [
+  "Interviewer: Thanks for joining. Could you introduce yourself?",
+  "Candidate: Sure, my name is Jane Doe. You can reach me at jane.doe@example.com or +1 415 555 0132.",
+  "Interviewer: Great, and where are you based?",
+  "Candidate: 42 Market Street, San Francisco. Jane Doe is also on www.janedoe.dev.",
+].join("\n");
+
+function transcriptFile(content: string): TranscriptFile {
+  return {
+    id: "file-1",
+    originalFile: { originalname: "jane-doe.txt" } as Express.Multer.File,
+    content,
+    status: "pending",
+    progress: { startTime: new Date() },
+    results: {},
+    retryCount: 0,
+    attempts: [],
+    validationErrors: [],
+  };
+}
+
+describe("Redactor", () => {
+  const redaction = redactTranscript(transcriptFile(TRANSCRIPT), {
+    types: ["name", "email", "phone", "address", "url"],
+    terms: [],
+  });
+
+  it("replaces each value with the same placeholder throughout the file", () => {
+    expect(redaction.content).not.toMatch(
+      /Jane|jane\.doe@|555|Market Street|janedoe\.dev/
+    );
+    expect(redaction.placeholders).toMatchObject({
+      "[NAME_1]": "Jane Doe",
+      "[EMAIL_1]": "jane.doe@example.com",
+    });
+    expect(redaction.content.match(/\[NAME_1\]/g)).toHaveLength(2);
+    expect(
+      redaction.audit.map(({ type, occurrences }) => [type, occurrences])
+    ).toEqual(
+      expect.arrayContaining([
+        ["name", 2],
+        ["email", 1],
+        ["phone", 1],
+        ["address", 1],
+        ["url", 1],
+      ])
+    );
+  });
+
+  it("restores the original transcript from the placeholders", () => {
+    expect(restorePlaceholders(redaction.content, redaction.placeholders)).toBe(
+      TRANSCRIPT
+    );
+  });
+
+  it("restores every string inside structured output", () => {
+    const structured = {
+      candidate: "[NAME_1]",
+      contact: ["[EMAIL_1]", "[UNKNOWN_9]"],
+      score: 8,
+    };
+
+    expect(restoreValue(structured, redaction.placeholders)).toEqual({
+      candidate: "Jane Doe",
+      contact: ["jane.doe@example.com", "[UNKNOWN_9]"],
+      score: 8,
+    });
+  });
+
+  it("always redacts custom terms", () => {
+    const { content } = redactTranscript(
+      transcriptFile(
+        "Candidate: I spent five years at Initech and loved INITECH."
+      ),
+      { types: ["custom"], terms: ["initech"] }
+    );
+
+    expect(content).toBe(
+      "Candidate: I spent five years at [CUSTOM_1] and loved [CUSTOM_1]."
+    );
+  });
+});
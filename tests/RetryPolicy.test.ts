@@ -0,0 +1,137 @@
+// tests/RetryPolicy.test.ts - Error classification, retries, timeouts and cancellation
+import { describe, expect, it, vi } from "vitest";
+import {
+  AttemptResult,
+  ProviderTimeoutError,
+  classifyError,
+  withRetry,
+} from "../src/services/RetryPolicy";
+import { StructuredOutputError } from "../src/services/StructuredOutput";
+
+// Provider SDK errors carry the HTTP status and the response headers
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    status,
+    headers: new Headers(headers),
+  });
+}
+
+const FAST = { delay: 1, maxDelay: 1, timeout: 1000 };
+
+describe("classifyError", () => {
+  it("retries rate limits and server errors, honouring Retry-After", () => {
+    expect(classifyError(httpError(429, { "retry-after": "2" }))).toEqual({
+      retryable: true,
+      status: 429,
+      reason: "rate_limited",
+      retryAfterMs: 2000,
+    });
+    expect(classifyError(httpError(503))).toMatchObject({
+      retryable: true,
+      reason: "server_error",
+    });
+  });
+
+  it("does not retry auth failures or bad requests", () => {
+    expect(classifyError(httpError(401))).toMatchObject({
+      retryable: false,
+      reason: "auth",
+    });
+    expect(classifyError(httpError(400))).toMatchObject({
+      retryable: false,
+      reason: "client_error",
+    });
+  });
+
+  it("retries timeouts, network failures and invalid structured output", () => {
+    const reset = Object.assign(new Error("read ECONNRESET"), {
+      code: "ECONNRESET",
+    });
+
+    expect(classifyError(new ProviderTimeoutError(10)).reason).toBe("timeout");
+    expect(classifyError(reset)).toEqual({
+      retryable: true,
+      reason: "network",
+    });
+    expect(classifyError(new StructuredOutputError(["/ bad"]))).toEqual({
+      retryable: true,
+      reason: "invalid_output",
+    });
+    expect(classifyError(new Error("boom"))).toEqual({
+      retryable: false,
+      reason: "unknown",
+    });
+  });
+});
+
+describe("withRetry", () => {
+  it("retries retryable failures until an attempt succeeds", async () => {
+    const attempts: AttemptResult[] = [];
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce("ok");
+
+    const result = await withRetry(fn, {
+      ...FAST,
+      maxAttempts: 3,
+      onAttempt: (attempt) => attempts.push(attempt),
+    });
+
+    expect(result).toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(
+      attempts.map(({ attempt, success, status }) => [attempt, success, status])
+    ).toEqual([
+      [1, false, 503],
+      [2, true, undefined],
+    ]);
+  });
+
+  it("gives up at once on a non-retryable error", async () => {
+    const error = httpError(401);
+    const fn = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(fn, { ...FAST, maxAttempts: 3 })).rejects.toBe(
+      error
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out each attempt and aborts its signal", async () => {
+    const signals: AbortSignal[] = [];
+    const fn = (signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<never>(() => undefined);
+    };
+
+    await expect(
+      withRetry(fn, { ...FAST, maxAttempts: 2, timeout: 5 })
+    ).rejects.toBeInstanceOf(ProviderTimeoutError);
+    expect(signals).toHaveLength(2);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it("stops without recording an attempt when the caller aborts", async () => {
+    const controller = new AbortController();
+    const onAttempt = vi.fn();
+    const fn = vi.fn(
+      (signal: AbortSignal) =>
+        new Promise<never>((_, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+          controller.abort(new Error("Batch cancelled"));
+        })
+    );
+
+    await expect(
+      withRetry(fn, {
+        ...FAST,
+        maxAttempts: 3,
+        signal: controller.signal,
+        onAttempt,
+      })
+    ).rejects.toThrow("Batch cancelled");
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onAttempt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+// tests/TranscriptParser.test.ts - VTT, SRT and JSON exports normalised to text
+import fs from "fs";
+import path from "path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { serverConfig } from "../src/config";
+import {
+  TranscriptParseError,
+  parseTranscript,
+} from "../src/services/TranscriptParser";
+
+// Uploads are read from disk, as multer stores them
+function upload(filename: string, content: string): Express.Multer.File {
+  const filePath = path.join(serverConfig.uploadDir, filename);
+  fs.writeFileSync(filePath, content);
+  return {
+    originalname: filename,
+    mimetype: "application/octet-stream",
+    path: filePath,
+    size: content.length,
+  } as Express.Multer.File;
+}
+
+describe("parseTranscript", () => {
+  beforeAll(() => {
+    fs.mkdirSync(serverConfig.uploadDir, { recursive: true });
+  });
+
+  it("reads WebVTT voice tags and merges consecutive cues by a speaker", async () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "NOTE exported from the meeting tool",
+      "",
+      "1",
+      "00:00:01.000 --> 00:00:04.000",
+      "<v Alice>Thanks for coming in.</v>",
+      "",
+      "2",
+      "00:00:04.500 --> 00:00:06.000",
+      "<v Alice>Let's start with your background.</v>",
+      "",
+      "3",
+      "00:01:05.000 --> 00:01:09.000",
+      "Bob: I have &amp; enjoy eight years of backend work.",
+    ].join("\n");
+
+    const parsed = await parseTranscript(upload("call.vtt", vtt));
+
+    expect(parsed).toEqual({
+      format: "vtt",
+      content: [
+        "[00:00:01] Alice: Thanks for coming in. Let's start with your background.",
+        "[00:01:05] Bob: I have & enjoy eight years of backend work.",
+      ].join("\n"),
+    });
+  });
+
+  it("rejects a WebVTT file without its header", async () => {
+    await expect(
+      parseTranscript(upload("bad.vtt", "00:00:01.000 --> 00:00:02.000\nHi"))
+    ).rejects.toThrow(TranscriptParseError);
+  });
+
+  it("reads SRT cues with Name: speaker prefixes", async () => {
+    const srt = [
+      "1",
+      "00:00:02,000 --> 00:00:05,000",
+      "Interviewer: Tell me about a hard bug.",
+      "",
+      "2",
+      "00:00:06,000 --> 00:00:10,000",
+      "Candidate: A race in our",
+      "<i>payment retries</i>.",
+    ].join("\r\n");
+
+    const parsed = await parseTranscript(upload("call.srt", srt));
+
+    expect(parsed.content).toBe(
+      [
+        "[00:00:02] Interviewer: Tell me about a hard bug.",
+        "[00:00:06] Candidate: A race in our payment retries.",
+      ].join("\n")
+    );
+  });
+
+  it("rejects an SRT file without cues", async () => {
+    await expect(
+      parseTranscript(upload("empty.srt", "just some text"))
+    ).rejects.toThrow("no subtitle cues");
+  });
+
+  it("reads segment lists from JSON exports", async () => {
+    const json = JSON.stringify({
+      segments: [
+        { start_time: 3.2, speaker: { name: "Alice" }, text: "Welcome." },
+        {
+          startTime: "00:00:07",
+          speaker_name: "Bob",
+          words: [
+            { text: "Happy" },
+            { text: "to" },
+            { text: "be" },
+            "here",
+            ".",
+          ],
+        },
+        { start: 9, speaker: "Bob", text: "   " },
+      ],
+    });
+
+    const parsed = await parseTranscript(upload("call.json", json));
+
+    expect(parsed).toEqual({
+      format: "json",
+      content: "[00:00:03] Alice: Welcome.\n[00:00:07] Bob: Happy to be here.",
+    });
+  });
+
+  it("takes a plain transcript field as is and rejects other JSON", async () => {
+    const plain = await parseTranscript(
+      upload("plain.json", JSON.stringify({ transcript: "Alice: Hello" }))
+    );
+    expect(plain.content).toBe("Alice: Hello");
+
+    await expect(
+      parseTranscript(upload("broken.json", "{ not json"))
+    ).rejects.toThrow("Invalid JSON file");
+    await expect(
+      parseTranscript(upload("other.json", JSON.stringify({ id: 1 })))
+    ).rejects.toThrow("expected a list of segments");
+  });
+});
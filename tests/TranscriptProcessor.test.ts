@@ -0,0 +1,278 @@
+// tests/TranscriptProcessor.test.ts - Batches run end to end on the mock provider
+import { afterEach, describe, expect, it } from "vitest";
+import { apiConfig } from "../src/config";
+import { createDefaultRegistry } from "../src/providers";
+import { createBatchStore } from "../src/services/BatchStore";
+import { ResponseCache, createCacheStore } from "../src/services/ResponseCache";
+import { ParsedUpload } from "../src/services/TranscriptParser";
+import { TranscriptProcessor } from "../src/services/TranscriptProcessor";
+import { BatchEvent, JobConfig } from "../src/types";
+
+const TRANSCRIPT = [
+  "Interviewer: Tell me about a system you designed.",
+  "Candidate: I built an event pipeline in Node that handled ten thousand messages a second.",
+  "Interviewer: How did you test it?",
+  "Candidate: Load tests in CI and contract tests between the services.",
+].join("\n");
+
+function upload(filename: string, content = TRANSCRIPT): ParsedUpload {
+  return {
+    file: {
+      originalname: filename,
+      mimetype: "text/plain",
+      path: `/nonexistent/${filename}`,
+      size: content.length,
+    } as Express.Multer.File,
+    format: "txt",
+    content,
+  };
+}
+
+function jobConfig(overrides: Partial<JobConfig> = {}): JobConfig {
+  return {
+    jobDescription: "Senior backend engineer with Node experience",
+    prompt: "Assess the candidate's system design and testing skills",
+    models: [
+      { id: "openai", provider: "openai", model: "gpt-4o" },
+      { id: "claude", provider: "claude", model: "claude-sonnet-4" },
+    ],
+    ...overrides,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  while (!condition()) await sleep(5);
+}
+
+// Retries run in the background like the /retry route
+async function waitForBatch(
+  processor: TranscriptProcessor,
+  batchId: string
+): Promise<void> {
+  await waitFor(
+    () => processor.getBatchProgress(batchId)?.status !== "processing"
+  );
+}
+
+function createProcessor(): TranscriptProcessor {
+  return new TranscriptProcessor(
+    createBatchStore("memory"),
+    createDefaultRegistry(),
+    new ResponseCache(createCacheStore("memory"))
+  );
+}
+
+describe("TranscriptProcessor", () => {
+  const { failureRate, latencyMs } = apiConfig.mock;
+
+  afterEach(() => {
+    Object.assign(apiConfig.mock, { failureRate, latencyMs });
+  });
+
+  it("analyses every file with every model target", async () => {
+    const processor = createProcessor();
+    const batchId = await processor.createBatch(
+      [upload("alice.txt"), upload("bob.txt")],
+      jobConfig()
+    );
+
+    await processor.startProcessing(batchId);
+
+    const progress = processor.getBatchProgress(batchId)!;
+    expect(progress.status).toBe("completed");
+    expect(progress.metrics).toMatchObject({
+      total: 2,
+      completed: 2,
+      failed: 0,
+      modelsComplete: { openai: 2, claude: 2 },
+    });
+
+    const results = processor.getMultiModelResults(batchId)!;
+    for (const file of results.files) {
+      expect(Object.keys(file.results).sort()).toEqual(["claude", "openai"]);
+      expect(file.results.openai.analysis).toContain(file.filename);
+    }
+  });
+
+  it("records provider errors when every model fails", async () => {
+    apiConfig.mock.failureRate = 1;
+    const processor = createProcessor();
+    const batchId = await processor.createBatch(
+      [upload("carol.txt")],
+      jobConfig()
+    );
+
+    await processor.startProcessing(batchId);
+
+    const [file] = processor.getFileDetails(batchId)!;
+    expect(file.status).toBe("failed");
+    expect(file.completedTargets).toEqual([]);
+    expect(file.errors.map((error) => error.target).sort()).toEqual([
+      "claude",
+      "openai",
+    ]);
+    expect(file.errors[0]).toMatchObject({
+      errorClass: "MockProviderError",
+      status: apiConfig.mock.failureStatus,
+    });
+  });
+
+  it("retries failed results in place", async () => {
+    apiConfig.mock.failureRate = 1;
+    const processor = createProcessor();
+    const batchId = await processor.createBatch(
+      [upload("dave.txt")],
+      jobConfig()
+    );
+    await processor.startProcessing(batchId);
+
+    apiConfig.mock.failureRate = 0;
+    const retried = processor.retryBatch(batchId, {})!;
+    expect(retried[0].targets.sort()).toEqual(["claude", "openai"]);
+    await waitForBatch(processor, batchId);
+
+    const [file] = processor.getFileDetails(batchId)!;
+    expect(file.status).toBe("completed");
+    expect(file.errors).toEqual([]);
+    expect(processor.getBatchProgress(batchId)!.metrics.failed).toBe(0);
+  });
+
+  it("restores redacted values in the comparison", async () => {
+    const processor = createProcessor();
+    const batchId = await processor.createBatch(
+      [upload("jane.txt", `${TRANSCRIPT}\nCandidate: My name is Jane Doe.`)],
+      jobConfig({
+        models: [{ id: "openai", provider: "openai", model: "gpt-4o" }],
+        redaction: { types: ["name"], terms: [] },
+        // The mock answers with the const, as a model quoting the
+        // redacted transcript would
+        outputSchema: {
+          type: "object",
+          properties: { candidate: { type: "string", const: "[NAME_1]" } },
+        },
+      })
+    );
+    await processor.startProcessing(batchId);
+
+    const fields = (keepRedacted: boolean) =>
+      processor.getComparison(batchId, keepRedacted)!.files[0].signals.openai
+        .fields;
+    expect(fields(false)).toEqual({ candidate: "Jane Doe" });
+    expect(fields(true)).toEqual({ candidate: "[NAME_1]" });
+  });
+
+  it("replays only the latest run's events to a new subscriber", async () => {
+    apiConfig.mock.failureRate = 1;
+    const processor = createProcessor();
+    const batchId = await processor.createBatch(
+      [upload("ivan.txt")],
+      jobConfig()
+    );
+    await processor.startProcessing(batchId);
+
+    apiConfig.mock.failureRate = 0;
+    processor.retryBatch(batchId, {});
+    await waitForBatch(processor, batchId);
+
+    const replayed: BatchEvent[] = [];
+    const unsubscribe = processor.subscribeToEvents(
+      batchId,
+      undefined,
+      (event) => replayed.push(event)
+    );
+    unsubscribe();
+
+    expect(replayed.map((event) => event.type)).not.toContain(
+      "provider-failed"
+    );
+    const finished = replayed.filter(
+      (event) => event.type === "batch-finished"
+    );
+    expect(finished).toHaveLength(1);
+    expect(finished[0].data.status).toBe("completed");
+
+    // A client resuming from an earlier id still gets the first run's tail
+    const resumed: BatchEvent[] = [];
+    processor.subscribeToEvents(batchId, 0, (event) => resumed.push(event))();
+    expect(resumed.map((event) => event.type)).toContain("provider-failed");
+  });
+
+  it("finishes the judge and scores a budget pause cut short on resume", async () => {
+    const processor = createProcessor();
+    const batchId = await processor.createBatch(
+      [upload("erin.txt")],
+      jobConfig({
+        models: [{ id: "openai", provider: "openai", model: "gpt-4o" }],
+        judge: { provider: "claude", model: "claude-sonnet-4", prompt: "" },
+        scoring: {
+          method: "model",
+          field: "score",
+          provider: "openai",
+          model: "gpt-4o",
+        },
+        budget: { maxTokens: 1, onExceeded: "pause" },
+      })
+    );
+
+    await processor.startProcessing(batchId);
+
+    let progress = processor.getBatchProgress(batchId)!;
+    expect(progress.status).toBe("paused");
+    expect(progress.metrics).toMatchObject({ pending: 1, judged: 0 });
+    expect(progress.files[0].status).toBe("pending");
+
+    expect(processor.resumeBatch(batchId, null)).toBe(true);
+    await waitForBatch(processor, batchId);
+
+    progress = processor.getBatchProgress(batchId)!;
+    expect(progress.status).toBe("completed");
+    expect(progress.metrics).toMatchObject({
+      completed: 1,
+      pending: 0,
+      judged: 1,
+      modelsComplete: { openai: 1 },
+    });
+    const results = processor.getMultiModelResults(batchId)!;
+    expect(results.files[0].judge).toBeDefined();
+    expect(processor.getLeaderboard(batchId)!.entries[0].scores).toMatchObject({
+      openai: expect.any(Number),
+      judge: expect.any(Number),
+    });
+  });
+
+  it("does not retry a cancelled batch before its run has settled", async () => {
+    apiConfig.mock.latencyMs = 50;
+    const processor = createProcessor();
+    const batchId = await processor.createBatch(
+      [upload("frank.txt"), upload("grace.txt"), upload("heidi.txt")],
+      jobConfig()
+    );
+    const run = processor.startProcessing(batchId);
+    await sleep(10);
+
+    expect(processor.cancelBatch(batchId)).toBe(true);
+    expect(processor.retryBatch(batchId, {})).toBeNull();
+    await run;
+
+    expect(processor.retryBatch(batchId, {})).toHaveLength(3);
+    await sleep(10);
+    expect(processor.cancelBatch(batchId)).toBe(true);
+    // The second cancel stops the retry run: its files end up skipped
+    await waitFor(
+      () => processor.getBatchProgress(batchId)!.metrics.processing === 0
+    );
+
+    const progress = processor.getBatchProgress(batchId)!;
+    expect(progress.status).toBe("cancelled");
+    expect(progress.metrics).toMatchObject({
+      pending: 0,
+      processing: 0,
+      completed: 0,
+      skipped: 3,
+    });
+  });
+});
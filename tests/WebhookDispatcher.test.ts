@@ -0,0 +1,148 @@
+// tests/WebhookDispatcher.test.ts - Signed deliveries to a local receiver
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { WebhookConfig } from "../src/config";
+import {
+  WebhookDispatcher,
+  checkCallbackUrl,
+  signPayload,
+} from "../src/services/WebhookDispatcher";
+import { WebhookDelivery, WebhookPayload } from "../src/types";
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const SECRET = "test-secret";
+
+describe("WebhookDispatcher", () => {
+  const received: Received[] = [];
+  let statuses: number[] = [];
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(statuses.shift() ?? 200).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  function options(overrides: Partial<WebhookConfig> = {}): WebhookConfig {
+    return {
+      urls: [url],
+      secret: SECRET,
+      allowedHosts: [],
+      maxAttempts: 3,
+      retryDelay: 1,
+      timeout: 1000,
+      ...overrides,
+    };
+  }
+
+  function delivery(target = url): WebhookDelivery {
+    return {
+      id: "delivery-1",
+      url: target,
+      event: "batch.completed",
+      status: "pending",
+      payload: {
+        id: "payload-1",
+        event: "batch.completed",
+        batchId: "batch-1",
+        timestamp: new Date(),
+        data: { status: "completed" },
+      } as WebhookPayload,
+      attempts: [],
+      createdAt: new Date(),
+    };
+  }
+
+  it("signs the timestamp and raw body with HMAC-SHA256", () => {
+    const expected = crypto
+      .createHmac("sha256", SECRET)
+      .update('1700000000.{"a":1}')
+      .digest("hex");
+
+    expect(signPayload(SECRET, "1700000000", '{"a":1}')).toBe(
+      `sha256=${expected}`
+    );
+  });
+
+  it("sends a signature the receiver can verify", async () => {
+    received.length = 0;
+    const sent = delivery();
+
+    await new WebhookDispatcher(options()).deliver(sent, () => undefined);
+
+    expect(sent.status).toBe("delivered");
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toMatchObject({ id: "payload-1" });
+    expect(headers["x-webhook-signature"]).toBe(
+      signPayload(SECRET, String(headers["x-webhook-timestamp"]), body)
+    );
+  });
+
+  it("retries a failed delivery with the same webhook id", async () => {
+    received.length = 0;
+    statuses = [503];
+    const sent = delivery();
+
+    await new WebhookDispatcher(options()).deliver(sent, () => undefined);
+
+    expect(sent.status).toBe("delivered");
+    expect(
+      sent.attempts.map(({ success, status }) => [success, status])
+    ).toEqual([
+      [false, 503],
+      [true, undefined],
+    ]);
+    expect(
+      new Set(received.map(({ headers }) => headers["x-webhook-id"]))
+    ).toEqual(new Set(["payload-1"]));
+  });
+
+  it("does not send unsigned payloads", async () => {
+    received.length = 0;
+    const sent = delivery();
+
+    await new WebhookDispatcher(options({ secret: "" })).deliver(
+      sent,
+      () => undefined
+    );
+
+    expect(sent.status).toBe("failed");
+    expect(received).toHaveLength(0);
+  });
+
+  it("keeps callback URLs off loopback addresses unless allowed", async () => {
+    expect(await checkCallbackUrl(url, options())).toContain("loopback");
+    expect(
+      await checkCallbackUrl(url, options({ allowedHosts: ["127.0.0.1"] }))
+    ).toBeNull();
+
+    received.length = 0;
+    const sent = delivery();
+    await new WebhookDispatcher(options({ urls: [] })).deliver(
+      sent,
+      () => undefined
+    );
+    expect(sent.status).toBe("failed");
+    expect(received).toHaveLength(0);
+  });
+});
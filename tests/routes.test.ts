@@ -0,0 +1,125 @@
+// tests/routes.test.ts - The /process → progress → download flow on the mock provider
+import express from "express";
+import fs from "fs";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { serverConfig } from "../src/config";
+import routes from "../src/routes";
+import { BatchProgress } from "../src/types";
+
+const app = express();
+app.use(express.json());
+app.use("/api", routes);
+
+const TRANSCRIPT = [
+  "Interviewer: Walk me through your last project.",
+  "Candidate: I migrated our billing service to an event-driven design.",
+  "Interviewer: What would you do differently?",
+  "Candidate: Add contract tests earlier and roll out behind a flag.",
+].join("\n");
+
+const MODELS = JSON.stringify([
+  { provider: "openai", model: "gpt-4o" },
+  { provider: "claude", model: "claude-sonnet-4" },
+]);
+
+function processRequest() {
+  return request(app)
+    .post("/api/process")
+    .field("jobDescription", "Senior backend engineer with Node experience")
+    .field("prompt", "Assess the candidate's design and delivery skills")
+    .field("models", MODELS);
+}
+
+// Collects a binary response body into a Buffer; the parser is handed the
+// raw response stream
+function binary(
+  res: request.Response,
+  callback: (error: Error | null, body: Buffer) => void
+): void {
+  const stream = res as unknown as NodeJS.ReadableStream;
+  const chunks: Buffer[] = [];
+  stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+  stream.on("end", () => callback(null, Buffer.concat(chunks)));
+}
+
+async function waitForBatch(batchId: string): Promise<BatchProgress> {
+  for (;;) {
+    const res = await request(app).get(`/api/batch/${batchId}/progress`);
+    expect(res.status).toBe(200);
+    if (res.body.data.status !== "processing") return res.body.data;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("batch routes", () => {
+  it("processes uploads and serves the results as a ZIP", async () => {
+    const started = await processRequest()
+      .attach("transcripts", Buffer.from(TRANSCRIPT), "alice.txt")
+      .attach("transcripts", Buffer.from(TRANSCRIPT), "bob.txt");
+
+    expect(started.status).toBe(200);
+    expect(started.body.data).toMatchObject({
+      totalFiles: 2,
+      status: "processing",
+    });
+    const { batchId } = started.body.data;
+
+    const progress = await waitForBatch(batchId);
+    expect(progress.status).toBe("completed");
+    expect(progress.metrics).toMatchObject({ total: 2, completed: 2 });
+    expect(progress.models.map((target) => target.id)).toEqual([
+      "openai",
+      "claude",
+    ]);
+
+    const download = await request(app)
+      .get(`/api/batch/${batchId}/download`)
+      .buffer(true)
+      .parse(binary);
+
+    expect(download.status).toBe(200);
+    expect(download.headers["content-type"]).toBe("application/zip");
+    const zip: Buffer = download.body;
+    expect(zip.subarray(0, 2).toString()).toBe("PK");
+    // Entry names are stored uncompressed in the archive
+    for (const name of [
+      "openai/alice-openai.txt",
+      "claude/bob-claude.txt",
+      "comparison.json",
+    ]) {
+      expect(zip.includes(name)).toBe(true);
+    }
+  });
+
+  it("rejects an invalid job without keeping the uploads", async () => {
+    const before = fs.readdirSync(serverConfig.uploadDir).length;
+
+    const res = await request(app)
+      .post("/api/process")
+      .field("jobDescription", "too short")
+      .attach("transcripts", Buffer.from(TRANSCRIPT), "carol.txt");
+
+    expect(res.status).toBe(400);
+    expect(res.body.success).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(fs.readdirSync(serverConfig.uploadDir).length).toBe(before);
+  });
+
+  it("rejects a callbackUrl when no webhook secret is configured", async () => {
+    const res = await processRequest()
+      .field("callbackUrl", "https://ats.example.com/hooks/transcripts")
+      .attach("transcripts", Buffer.from(TRANSCRIPT), "dave.txt");
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toContain("WEBHOOK_SECRET");
+  });
+
+  it("returns 404 for an unknown batch", async () => {
+    const res = await request(app).get(
+      "/api/batch/00000000-0000-4000-8000-000000000000/progress"
+    );
+
+    expect(res.status).toBe(404);
+  });
+});
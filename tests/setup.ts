@@ -0,0 +1,24 @@
+// tests/setup.ts - Offline environment, set before the config is loaded
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll } from "vitest";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "transcript-processor-"));
+
+Object.assign(process.env, {
+  PROVIDER_MODE: "mock",
+  BATCH_STORE: "memory",
+  UPLOAD_DIR: path.join(root, "uploads"),
+  OUTPUT_DIR: path.join(root, "output"),
+  DATA_DIR: path.join(root, "data"),
+  MOCK_LATENCY_MS: "0",
+  MOCK_FAILURE_RATE: "0",
+  RETRY_DELAY_MS: "1",
+  RESPONSE_CACHE: "false",
+  REDACTION_ENABLED: "false",
+});
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});